@@ -0,0 +1,381 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { fetchNewsSources } from "@/lib/newsApi";
+import { buildSearchQuery, emptyQueryParts, hasOnlyExclusions, type SearchQueryParts } from "@/lib/searchQuery";
+import type { FeedFilters, SortOption } from "@/lib/feedUrl";
+import type { NewsLanguage, SearchInField } from "@shared/schema";
+
+interface AdvancedSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: FeedFilters;
+  onFiltersChange: (filters: FeedFilters) => void;
+}
+
+export const LANGUAGES: Array<{ value: NewsLanguage; label: string }> = [
+  { value: "ar", label: "Arabic" },
+  { value: "zh", label: "Chinese" },
+  { value: "nl", label: "Dutch" },
+  { value: "en", label: "English" },
+  { value: "fr", label: "French" },
+  { value: "de", label: "German" },
+  { value: "he", label: "Hebrew" },
+  { value: "it", label: "Italian" },
+  { value: "no", label: "Norwegian" },
+  { value: "pt", label: "Portuguese" },
+  { value: "ru", label: "Russian" },
+  { value: "es", label: "Spanish" },
+  { value: "sv", label: "Swedish" },
+  { value: "ud", label: "Urdu" },
+];
+
+const SEARCH_IN_FIELDS: Array<{ value: SearchInField; label: string }> = [
+  { value: "title", label: "Title" },
+  { value: "description", label: "Description" },
+  { value: "content", label: "Content" },
+];
+
+const SORT_OPTIONS: Array<{ value: SortOption; label: string }> = [
+  { value: "publishedAt", label: "Newest first" },
+  { value: "relevancy", label: "Most relevant" },
+  { value: "popularity", label: "Most popular" },
+];
+
+// Select items cannot have an empty value, so "no preference" gets a placeholder one
+const ANY = "any";
+
+interface AdvancedFields {
+  queryParts: SearchQueryParts;
+  dateRange?: DateRange;
+  sortBy?: SortOption;
+  sources: string[];
+  language?: NewsLanguage;
+  searchIn: SearchInField[];
+}
+
+function toFields(filters: FeedFilters): AdvancedFields {
+  return {
+    // An existing query goes in as free text; the other parts add to it
+    queryParts: { ...emptyQueryParts, allWords: filters.q ?? "" },
+    dateRange: filters.from || filters.to
+      ? { from: filters.from ? parseISO(filters.from) : undefined, to: filters.to ? parseISO(filters.to) : undefined }
+      : undefined,
+    sortBy: filters.sortBy,
+    sources: filters.sources ?? [],
+    language: filters.language,
+    searchIn: filters.searchIn ?? [],
+  };
+}
+
+function formatRange(range?: DateRange): string {
+  if (!range?.from) return "Any time";
+  if (!range.to) return `From ${format(range.from, "LLL d, y")}`;
+  return `${format(range.from, "LLL d, y")} – ${format(range.to, "LLL d, y")}`;
+}
+
+/**
+ * Side drawer exposing the search options the header has no room for: date
+ * range, sort order, sources, language, which fields to search, and a
+ * boolean query builder that previews the query string it will send.
+ */
+export function AdvancedSearch({ open, onOpenChange, filters, onFiltersChange }: AdvancedSearchProps) {
+  const [fields, setFields] = useState<AdvancedFields>(() => toFields(filters));
+
+  // Start from the current filters each time the drawer opens; read through a ref so
+  // filter changes while it is open don't overwrite what the reader is editing
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+
+  useEffect(() => {
+    if (open) setFields(toFields(filtersRef.current));
+  }, [open]);
+
+  const { data: sourcesData, isLoading: sourcesLoading } = useQuery({
+    queryKey: ['/api/news/sources'],
+    queryFn: () => fetchNewsSources(),
+    enabled: open,
+  });
+  const sources = sourcesData?.sources || [];
+
+  const query = buildSearchQuery(fields.queryParts);
+  const missingIncludedWords = hasOnlyExclusions(fields.queryParts);
+
+  const setQueryPart = (part: keyof SearchQueryParts, value: string) => {
+    setFields(prev => ({ ...prev, queryParts: { ...prev.queryParts, [part]: value } }));
+  };
+
+  const toggleSource = (sourceId: string) => {
+    setFields(prev => ({
+      ...prev,
+      sources: prev.sources.includes(sourceId)
+        ? prev.sources.filter(id => id !== sourceId)
+        : [...prev.sources, sourceId],
+    }));
+  };
+
+  // No fields means all of them, so unticking starts from the full set; the last one cannot be unticked
+  const toggleSearchIn = (field: SearchInField) => {
+    setFields(prev => {
+      const current = prev.searchIn.length > 0 ? prev.searchIn : SEARCH_IN_FIELDS.map(f => f.value);
+      const next = current.includes(field) ? current.filter(f => f !== field) : [...current, field];
+      return next.length > 0 ? { ...prev, searchIn: next } : prev;
+    });
+  };
+
+  const handleApply = () => {
+    onFiltersChange({
+      ...filters,
+      q: query || undefined,
+      from: fields.dateRange?.from ? format(fields.dateRange.from, "yyyy-MM-dd") : undefined,
+      to: fields.dateRange?.to ? format(fields.dateRange.to, "yyyy-MM-dd") : undefined,
+      sortBy: fields.sortBy,
+      sources: fields.sources.length > 0 ? fields.sources : undefined,
+      language: fields.language,
+      // Every field ticked is the same as none
+      searchIn: fields.searchIn.length > 0 && fields.searchIn.length < SEARCH_IN_FIELDS.length
+        ? fields.searchIn
+        : undefined,
+    });
+    onOpenChange(false);
+  };
+
+  const handleReset = () => {
+    setFields(toFields({}));
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto" data-testid="drawer-advanced-search">
+        <SheetHeader>
+          <SheetTitle>Advanced Search</SheetTitle>
+          <SheetDescription>
+            Narrow the search by keywords, dates, sources and language.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-6">
+          {/* Query Builder */}
+          <div className="space-y-3">
+            <h3 className="font-medium">Keywords</h3>
+            <div>
+              <Label htmlFor="query-all" className="text-sm text-muted-foreground mb-1 block">All of these words</Label>
+              <Input
+                id="query-all"
+                value={fields.queryParts.allWords}
+                onChange={(e) => setQueryPart("allWords", e.target.value)}
+                placeholder="climate policy"
+                data-testid="input-query-all"
+              />
+            </div>
+            <div>
+              <Label htmlFor="query-phrase" className="text-sm text-muted-foreground mb-1 block">This exact phrase</Label>
+              <Input
+                id="query-phrase"
+                value={fields.queryParts.exactPhrase}
+                onChange={(e) => setQueryPart("exactPhrase", e.target.value)}
+                placeholder="carbon tax"
+                data-testid="input-query-phrase"
+              />
+            </div>
+            <div>
+              <Label htmlFor="query-any" className="text-sm text-muted-foreground mb-1 block">Any of these words</Label>
+              <Input
+                id="query-any"
+                value={fields.queryParts.anyWords}
+                onChange={(e) => setQueryPart("anyWords", e.target.value)}
+                placeholder="solar wind"
+                data-testid="input-query-any"
+              />
+            </div>
+            <div>
+              <Label htmlFor="query-none" className="text-sm text-muted-foreground mb-1 block">None of these words</Label>
+              <Input
+                id="query-none"
+                value={fields.queryParts.noneWords}
+                onChange={(e) => setQueryPart("noneWords", e.target.value)}
+                placeholder="coal"
+                data-testid="input-query-none"
+              />
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <p className="text-xs text-muted-foreground mb-1">Query preview</p>
+              <code className="text-sm break-words" data-testid="text-query-preview">
+                {query || <span className="text-muted-foreground">No keywords</span>}
+              </code>
+              {missingIncludedWords && (
+                <p className="text-xs text-destructive mt-1" data-testid="text-query-exclusions-only">
+                  Add words to search for; excluded words can't be searched on their own.
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Search In */}
+          <div>
+            <h3 className="font-medium mb-3">Search In</h3>
+            <div className="flex flex-wrap gap-4">
+              {SEARCH_IN_FIELDS.map((field) => (
+                <div key={field.value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`search-in-${field.value}`}
+                    checked={fields.searchIn.length === 0 || fields.searchIn.includes(field.value)}
+                    onCheckedChange={() => toggleSearchIn(field.value)}
+                    data-testid={`checkbox-search-in-${field.value}`}
+                  />
+                  <Label htmlFor={`search-in-${field.value}`}>{field.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Date Range */}
+          <div>
+            <h3 className="font-medium mb-3">Published</h3>
+            <div className="flex items-center gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="flex-1 justify-start font-normal" data-testid="button-date-range">
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {formatRange(fields.dateRange)}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={fields.dateRange}
+                    onSelect={(dateRange) => setFields(prev => ({ ...prev, dateRange }))}
+                    disabled={{ after: new Date() }}
+                    defaultMonth={fields.dateRange?.from}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              {fields.dateRange && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setFields(prev => ({ ...prev, dateRange: undefined }))}
+                  data-testid="button-clear-date-range"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Sort and Language */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="text-sm text-muted-foreground mb-1 block">Sort by</Label>
+              <Select
+                value={fields.sortBy ?? ANY}
+                onValueChange={(value) =>
+                  setFields(prev => ({ ...prev, sortBy: value === ANY ? undefined : value as SortOption }))
+                }
+              >
+                <SelectTrigger data-testid="select-sort-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Default</SelectItem>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-sm text-muted-foreground mb-1 block">Language</Label>
+              <Select
+                value={fields.language ?? ANY}
+                onValueChange={(value) =>
+                  setFields(prev => ({ ...prev, language: value === ANY ? undefined : value as NewsLanguage }))
+                }
+              >
+                <SelectTrigger data-testid="select-language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any language</SelectItem>
+                  {LANGUAGES.map((language) => (
+                    <SelectItem key={language.value} value={language.value}>
+                      {language.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Sources */}
+          <div>
+            <h3 className="font-medium mb-3">
+              Sources {fields.sources.length > 0 && <span className="text-muted-foreground font-normal">({fields.sources.length} selected)</span>}
+            </h3>
+            {sourcesLoading ? (
+              <div className="space-y-2">
+                {[1, 2, 3, 4].map((i) => (
+                  <div key={i} className="h-6 bg-muted animate-pulse rounded" />
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {sources.map((source) => {
+                  const sourceId = source.id || source.name;
+                  return (
+                    <div key={sourceId} className="flex items-center space-x-3">
+                      <Checkbox
+                        id={`advanced-source-${sourceId}`}
+                        checked={fields.sources.includes(sourceId)}
+                        onCheckedChange={() => toggleSource(sourceId)}
+                        data-testid={`checkbox-advanced-source-${sourceId}`}
+                      />
+                      <Label htmlFor={`advanced-source-${sourceId}`} className="text-sm cursor-pointer">
+                        {source.name}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <SheetFooter className="gap-2">
+          <Button variant="outline" onClick={handleReset} data-testid="button-reset-advanced-search">
+            Reset
+          </Button>
+          <Button onClick={handleApply} disabled={missingIncludedWords} data-testid="button-apply-advanced-search">
+            Search
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
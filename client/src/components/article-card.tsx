@@ -1,32 +1,51 @@
-import { useState } from "react";
-import { ExternalLink, Bookmark, Share2, Clock, Sparkles } from "lucide-react";
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { BookOpen, Bookmark, Share2, Clock, Sparkles, Smile, Meh, Frown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useBookmarks } from "@/hooks/use-bookmarks";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { summarizeArticle } from "@/lib/newsApi";
-import type { Article } from "@shared/schema";
+import type { Article, SentimentLabel } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { ReadAloudButton, articleSpeechItem } from "@/components/speech-player";
+
+const SENTIMENT_BADGES: Record<SentimentLabel, { label: string; icon: typeof Smile; className: string }> = {
+  positive: { label: "Positive", icon: Smile, className: "border-green-500/40 text-green-700 dark:text-green-400" },
+  neutral: { label: "Neutral", icon: Meh, className: "text-muted-foreground" },
+  negative: { label: "Negative", icon: Frown, className: "border-red-500/40 text-red-700 dark:text-red-400" },
+};
 
 interface ArticleCardProps {
   article: Article;
-  onSummarize?: (articleId: string, summary: string) => void;
+  onSummarize?: (articleId: string, summary: string, method: string) => void;
+  // Set to summarize this card without a click (e.g. by voice); onSummarizeRequestHandled clears it
+  summarizeRequested?: boolean;
+  onSummarizeRequestHandled?: () => void;
 }
 
-export function ArticleCard({ article, onSummarize }: ArticleCardProps) {
-  const [isBookmarked, setIsBookmarked] = useState(false);
+export function ArticleCard({ article, onSummarize, summarizeRequested = false, onSummarizeRequestHandled }: ArticleCardProps) {
+  const { isBookmarked: isArticleBookmarked, toggleBookmark } = useBookmarks();
+  const isBookmarked = isArticleBookmarked(article.id);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
 
   const summarizeMutation = useMutation({
     mutationFn: ({ articleId, summaryLength }: { articleId: string; summaryLength?: "short" | "medium" | "long" }) =>
       summarizeArticle(articleId, summaryLength),
     onSuccess: (data) => {
-      onSummarize?.(data.article.id, data.summary);
+      onSummarize?.(data.article.id, data.summary, data.method);
       queryClient.invalidateQueries({ queryKey: ['/api/news'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bookmarks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/articles', data.article.id] });
       toast({
         title: "Summary Generated",
-        description: "AI summary has been generated for this article.",
+        description: data.method === "extractive"
+          ? "The AI model was unavailable, so key sentences were extracted instead."
+          : "AI summary has been generated for this article.",
       });
     },
     onError: () => {
@@ -38,18 +57,13 @@ export function ArticleCard({ article, onSummarize }: ArticleCardProps) {
     },
   });
 
+  // Opens the reader view, which shows the full extracted text rather than the provider's excerpt
   const handleReadFullArticle = () => {
-    window.open(article.url, '_blank', 'noopener,noreferrer');
+    setLocation(`/article/${article.id}`);
   };
 
   const handleBookmark = () => {
-    setIsBookmarked(!isBookmarked);
-    toast({
-      title: isBookmarked ? "Bookmark Removed" : "Article Bookmarked",
-      description: isBookmarked 
-        ? "Article removed from bookmarks"
-        : "Article saved to bookmarks",
-    });
+    toggleBookmark(article);
   };
 
   const handleShare = async () => {
@@ -85,6 +99,14 @@ export function ArticleCard({ article, onSummarize }: ArticleCardProps) {
     summarizeMutation.mutate({ articleId: article.id });
   };
 
+  // Runs once per request, since handling it clears summarizeRequested
+  const { mutate: requestSummary, isPending: isSummarizing } = summarizeMutation;
+  useEffect(() => {
+    if (!summarizeRequested) return;
+    onSummarizeRequestHandled?.();
+    if (!isSummarizing) requestSummary({ articleId: article.id });
+  }, [summarizeRequested, onSummarizeRequestHandled, isSummarizing, requestSummary, article.id]);
+
   const getTimeAgo = (publishedAt: Date) => {
     const now = new Date();
     const diffInHours = Math.floor((now.getTime() - new Date(publishedAt).getTime()) / (1000 * 60 * 60));
@@ -99,8 +121,8 @@ export function ArticleCard({ article, onSummarize }: ArticleCardProps) {
     return new Date(publishedAt).toLocaleDateString();
   };
 
-  const source = article.source as any;
-  const sourceName = source?.name || "Unknown Source";
+  const sourceName = article.source.name || "Unknown Source";
+  const sentimentBadge = article.sentiment ? SENTIMENT_BADGES[article.sentiment as SentimentLabel] : undefined;
 
   return (
     <Card className="overflow-hidden hover:shadow-lg transition-shadow" data-testid={`card-article-${article.id}`}>
@@ -118,9 +140,21 @@ export function ArticleCard({ article, onSummarize }: ArticleCardProps) {
       
       <CardContent className="p-4">
         <div className="flex items-center justify-between mb-2">
-          <Badge variant="secondary" className="text-xs" data-testid={`badge-source-${article.id}`}>
-            {sourceName}
-          </Badge>
+          <div className="flex items-center gap-1 min-w-0">
+            <Badge variant="secondary" className="text-xs" data-testid={`badge-source-${article.id}`}>
+              {sourceName}
+            </Badge>
+            {sentimentBadge && (
+              <Badge
+                variant="outline"
+                className={cn("text-xs", sentimentBadge.className)}
+                data-testid={`badge-sentiment-${article.id}`}
+              >
+                <sentimentBadge.icon className="w-3 h-3 mr-1" />
+                {sentimentBadge.label}
+              </Badge>
+            )}
+          </div>
           <div className="flex items-center text-xs text-muted-foreground">
             <Clock className="w-3 h-3 mr-1" />
             <span data-testid={`text-time-${article.id}`}>{getTimeAgo(article.publishedAt)}</span>
@@ -137,9 +171,12 @@ export function ArticleCard({ article, onSummarize }: ArticleCardProps) {
         <div className="mb-3">
           {article.aiSummary ? (
             <div className="space-y-2">
-              <div className="flex items-center text-xs text-primary">
-                <Sparkles className="w-3 h-3 mr-1" />
-                <span>AI Summary</span>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center text-xs text-primary" data-testid={`label-summary-${article.id}`}>
+                  <Sparkles className="w-3 h-3 mr-1" />
+                  <span>{article.summaryMethod === "extractive" ? "Key Sentences" : "AI Summary"}</span>
+                </div>
+                <ReadAloudButton item={articleSpeechItem(article)} />
               </div>
               <p className="text-sm text-muted-foreground line-clamp-3" data-testid={`text-summary-${article.id}`}>
                 {article.aiSummary}
@@ -175,7 +212,7 @@ export function ArticleCard({ article, onSummarize }: ArticleCardProps) {
             data-testid={`link-read-full-${article.id}`}
           >
             Read Full Article
-            <ExternalLink className="w-3 h-3 ml-1" />
+            <BookOpen className="w-3 h-3 ml-1" />
           </Button>
 
           <div className="flex space-x-1">
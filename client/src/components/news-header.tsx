@@ -1,33 +1,40 @@
 import { useState, useEffect } from "react";
-import { Search, Mic, Settings, Moon, Sun, Globe, Tag, Filter, X } from "lucide-react";
+import { Search, Mic, Settings, Moon, Sun, Globe, Tag, Filter, X, User, LogIn, LogOut, Bookmark, Smile, ArrowUpDown, SlidersHorizontal } from "lucide-react";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { 
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
+import { AdvancedSearch, LANGUAGES } from "@/components/advanced-search";
 import { useVoiceSearch } from "@/hooks/use-voice-search";
+import { describeVoiceCommand, type VoiceCommand } from "@/lib/voiceCommands";
+import { useAuth } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
-
-interface NewsFilters {
-  country?: string;
-  category?: string;
-  sources?: string[];
-  q?: string;
-}
+import { usesSearch, type FeedFilters, type SortOption } from "@/lib/feedUrl";
+import type { SentimentLabel } from "@shared/schema";
 
 interface NewsHeaderProps {
-  filters: NewsFilters;
-  onFiltersChange: (filters: NewsFilters) => void;
+  filters: FeedFilters;
+  onFiltersChange: (filters: FeedFilters) => void;
   onSettingsClick: () => void;
   isDarkMode: boolean;
   onThemeToggle: () => void;
   isLoading?: boolean;
   resultsCount?: number;
   onRefresh: () => void;
+  // From the user's preferences: recognition language, and whether to offer voice search at all
+  voiceLanguage?: string;
+  voiceSearchEnabled?: boolean;
+  // Feed actions voice commands can trigger
+  onNextPage?: () => void;
+  onSummarizeArticle?: (position: number | "last") => void;
 }
 
 const COUNTRIES = [
@@ -53,6 +60,20 @@ const CATEGORIES = [
   { value: "technology", label: "Technology" },
 ];
 
+const SENTIMENTS: Array<{ value: SentimentLabel | ""; label: string }> = [
+  { value: "", label: "All Sentiments" },
+  { value: "positive", label: "Positive" },
+  { value: "neutral", label: "Neutral" },
+  { value: "negative", label: "Negative" },
+];
+
+// Only searches can be sorted; headlines come in the news service's own order
+const SORT_OPTIONS: Array<{ value: SortOption | ""; label: string }> = [
+  { value: "", label: "Newest First" },
+  { value: "relevancy", label: "Most Relevant" },
+  { value: "popularity", label: "Most Popular" },
+];
+
 export function NewsHeader({
   filters,
   onFiltersChange,
@@ -62,20 +83,56 @@ export function NewsHeader({
   isLoading = false,
   resultsCount = 0,
   onRefresh,
+  voiceLanguage = "en-US",
+  voiceSearchEnabled = true,
+  onNextPage,
+  onSummarizeArticle,
 }: NewsHeaderProps) {
   const [searchQuery, setSearchQuery] = useState(filters.q || "");
+  const [advancedOpen, setAdvancedOpen] = useState(false);
+  const { user, logoutMutation } = useAuth();
+  const [, setLocation] = useLocation();
+
+  const handleVoiceCommand = (command: VoiceCommand) => {
+    switch (command.type) {
+      case "search": {
+        // A spoken search starts over on the basic filters but keeps advanced ones like sources and dates
+        const { q, country, category, sentiment } = command.filters;
+        setSearchQuery(q ?? "");
+        onFiltersChange({ ...filters, q, country, category, sentiment });
+        break;
+      }
+      case "clearFilters":
+        clearFilters();
+        break;
+      case "openSaved":
+        setLocation("/saved");
+        break;
+      case "nextPage":
+        onNextPage?.();
+        break;
+      case "summarize":
+        onSummarizeArticle?.(command.position);
+        break;
+    }
+  };
 
-  const { isListening, isSupported, startVoiceSearch, stopVoiceSearch, error } = useVoiceSearch({
-    onSearch: (query) => {
-      setSearchQuery(query);
-      onFiltersChange({ ...filters, q: query });
-    },
+  const { isListening, isSupported, transcript, startVoiceSearch, stopVoiceSearch, error, lastCommand } = useVoiceSearch({
+    language: voiceLanguage,
+    onCommand: handleVoiceCommand,
   });
 
   useEffect(() => {
     setSearchQuery(filters.q || "");
   }, [filters.q]);
 
+  const showVoiceSearch = isSupported && voiceSearchEnabled;
+
+  // Turning voice search off in settings also ends a session in progress
+  useEffect(() => {
+    if (!voiceSearchEnabled && isListening) stopVoiceSearch();
+  }, [voiceSearchEnabled, isListening, stopVoiceSearch]);
+
   const handleSearchSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onFiltersChange({ ...filters, q: searchQuery });
@@ -89,6 +146,14 @@ export function NewsHeader({
     onFiltersChange({ ...filters, category: category || undefined });
   };
 
+  const handleSentimentChange = (sentiment: SentimentLabel | "") => {
+    onFiltersChange({ ...filters, sentiment: sentiment || undefined });
+  };
+
+  const handleSortChange = (sortBy: SortOption | "") => {
+    onFiltersChange({ ...filters, sortBy: sortBy || undefined });
+  };
+
   const clearFilters = () => {
     setSearchQuery("");
     onFiltersChange({});
@@ -103,14 +168,41 @@ export function NewsHeader({
     const category = CATEGORIES.find(c => c.value === filters.category);
     if (category) activeFilters.push({ key: 'category', label: category.label, value: filters.category });
   }
+  if (filters.sentiment) {
+    const sentiment = SENTIMENTS.find(s => s.value === filters.sentiment);
+    if (sentiment) activeFilters.push({ key: 'sentiment', label: sentiment.label, value: filters.sentiment });
+  }
   if (filters.q) {
     activeFilters.push({ key: 'q', label: `"${filters.q}"`, value: filters.q });
   }
+  if (filters.from || filters.to) {
+    const range = [filters.from ?? "…", filters.to ?? "today"].join(" – ");
+    activeFilters.push({ key: 'date', label: range, value: range });
+  }
+  if (filters.language) {
+    const language = LANGUAGES.find(l => l.value === filters.language);
+    activeFilters.push({ key: 'language', label: language?.label ?? filters.language, value: filters.language });
+  }
+  if (filters.sources?.length) {
+    const label = filters.sources.length === 1 ? filters.sources[0] : `${filters.sources.length} sources`;
+    activeFilters.push({ key: 'sources', label, value: filters.sources.join(",") });
+  }
+  if (filters.searchIn?.length) {
+    activeFilters.push({ key: 'searchIn', label: `In ${filters.searchIn.join(", ")}`, value: filters.searchIn.join(",") });
+  }
 
   const removeFilter = (filterKey: string) => {
     const newFilters = { ...filters };
     if (filterKey === 'country') delete newFilters.country;
     if (filterKey === 'category') delete newFilters.category;
+    if (filterKey === 'sentiment') delete newFilters.sentiment;
+    if (filterKey === 'language') delete newFilters.language;
+    if (filterKey === 'sources') delete newFilters.sources;
+    if (filterKey === 'searchIn') delete newFilters.searchIn;
+    if (filterKey === 'date') {
+      delete newFilters.from;
+      delete newFilters.to;
+    }
     if (filterKey === 'q') {
       delete newFilters.q;
       setSearchQuery("");
@@ -140,6 +232,14 @@ export function NewsHeader({
             >
               <Search className={cn("w-4 h-4", isLoading && "animate-spin")} />
             </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation("/saved")}
+              data-testid="button-saved"
+            >
+              <Bookmark className="w-4 h-4" />
+            </Button>
             <Button
               variant="ghost"
               size="icon"
@@ -156,6 +256,35 @@ export function NewsHeader({
             >
               {isDarkMode ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
             </Button>
+            {user ? (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" data-testid="button-account">
+                    <User className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel data-testid="text-username">{user.username}</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => logoutMutation.mutate()}
+                    data-testid="button-logout"
+                  >
+                    <LogOut className="w-4 h-4 mr-2" />
+                    Sign Out
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            ) : (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setLocation("/auth")}
+                data-testid="button-login"
+              >
+                <LogIn className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         </div>
 
@@ -168,10 +297,10 @@ export function NewsHeader({
               placeholder="Search for topics, keywords, or countries..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full pl-10 pr-12 py-3"
+              className={cn("w-full pl-10 py-3", showVoiceSearch ? "pr-12" : "pr-4")}
               data-testid="input-search"
             />
-            {isSupported && (
+            {showVoiceSearch && (
               <Button
                 type="button"
                 variant="ghost"
@@ -190,13 +319,15 @@ export function NewsHeader({
         </form>
 
         {/* Voice Search Feedback */}
-        {isListening && (
+        {showVoiceSearch && isListening && (
           <div className="mb-4 p-4 bg-primary/10 border border-primary/20 rounded-lg" data-testid="voice-feedback">
             <div className="flex items-center space-x-3">
               <Mic className="w-5 h-5 text-primary animate-pulse" />
               <div>
                 <p className="text-primary font-medium">Listening...</p>
-                <p className="text-primary/70 text-sm">Say something like "Show me technology news from USA"</p>
+                <p className="text-primary/70 text-sm" data-testid="text-voice-transcript">
+                  {transcript ? `"${transcript}"` : 'Say something like "Show me technology news from USA" or "Summarize the first article"'}
+                </p>
               </div>
               <Button
                 variant="ghost"
@@ -211,8 +342,19 @@ export function NewsHeader({
           </div>
         )}
 
+        {/* Voice Command Confirmation */}
+        {showVoiceSearch && !isListening && lastCommand && (
+          <div className="mb-4 p-3 bg-primary/10 border border-primary/20 rounded-lg text-sm flex items-center gap-2" data-testid="voice-understood">
+            <Mic className="w-4 h-4 text-primary" />
+            <span>
+              <span className="text-muted-foreground">Understood as: </span>
+              <span className="font-medium">{describeVoiceCommand(lastCommand)}</span>
+            </span>
+          </div>
+        )}
+
         {/* Voice Search Error */}
-        {error && (
+        {showVoiceSearch && error && (
           <div className="mb-4 p-4 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive text-sm">
             Voice search error: {error}
           </div>
@@ -262,6 +404,61 @@ export function NewsHeader({
             </DropdownMenuContent>
           </DropdownMenu>
 
+          {/* Sentiment Filter */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="secondary" className="flex items-center space-x-2" data-testid="button-sentiment-filter">
+                <Smile className="w-4 h-4" />
+                <span>{SENTIMENTS.find(s => s.value === filters.sentiment)?.label || "All Sentiments"}</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {SENTIMENTS.map((sentiment) => (
+                <DropdownMenuItem
+                  key={sentiment.value}
+                  onClick={() => handleSentimentChange(sentiment.value)}
+                  data-testid={`option-sentiment-${sentiment.value || 'all'}`}
+                >
+                  {sentiment.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {/* Sort Order (search results only) */}
+          {usesSearch(filters) && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="secondary" className="flex items-center space-x-2" data-testid="button-sort">
+                  <ArrowUpDown className="w-4 h-4" />
+                  <span>{SORT_OPTIONS.find(o => o.value === (filters.sortBy ?? ""))?.label || "Newest First"}</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                {SORT_OPTIONS.map((option) => (
+                  <DropdownMenuItem
+                    key={option.value}
+                    onClick={() => handleSortChange(option.value)}
+                    data-testid={`option-sort-${option.value || 'default'}`}
+                  >
+                    {option.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          {/* Advanced Search */}
+          <Button
+            variant="secondary"
+            className="flex items-center space-x-2"
+            onClick={() => setAdvancedOpen(true)}
+            data-testid="button-advanced-search"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            <span>Advanced</span>
+          </Button>
+
           {/* Clear Filters */}
           {activeFilters.length > 0 && (
             <Button
@@ -318,6 +515,13 @@ export function NewsHeader({
           </div>
         </div>
       </div>
+
+      <AdvancedSearch
+        open={advancedOpen}
+        onOpenChange={setAdvancedOpen}
+        filters={filters}
+        onFiltersChange={onFiltersChange}
+      />
     </header>
   );
 }
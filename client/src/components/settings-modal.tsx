@@ -19,14 +19,7 @@ import {
 import { useQuery } from "@tanstack/react-query";
 import { fetchNewsSources } from "@/lib/newsApi";
 import { useToast } from "@/hooks/use-toast";
-
-interface UserPreferences {
-  preferredSources: string[];
-  autoSummarize: boolean;
-  summaryLength: "short" | "medium" | "long";
-  voiceSearchEnabled: boolean;
-  voiceLanguage: string;
-}
+import type { UserPreferences } from "@/hooks/use-preferences";
 
 interface SettingsModalProps {
   open: boolean;
@@ -69,9 +62,6 @@ export function SettingsModal({
   const handleSave = () => {
     onPreferencesChange(localPreferences);
     
-    // Save to localStorage
-    localStorage.setItem('newsai-preferences', JSON.stringify(localPreferences));
-    
     toast({
       title: "Settings Saved",
       description: "Your preferences have been saved successfully.",
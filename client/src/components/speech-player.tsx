@@ -0,0 +1,133 @@
+import { Headphones, Pause, Play, SkipForward, Square, Volume2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useSpeech, type SpeechItem } from "@/hooks/use-speech-synthesis";
+import type { Article } from "@shared/schema";
+
+// How many articles "Play my briefing" reads
+const BRIEFING_SIZE = 5;
+
+export function articleSpeechItem(article: Article): SpeechItem {
+  return {
+    id: `article-${article.id}`,
+    title: article.title,
+    text: article.aiSummary || article.description || "",
+  };
+}
+
+/**
+ * Reads the top summarized articles one after another. Articles without a
+ * summary yet are skipped so the briefing stays short.
+ */
+export function PlayBriefingButton({ articles }: { articles: Article[] }) {
+  const speech = useSpeech();
+  const briefing = articles.filter(article => article.aiSummary).slice(0, BRIEFING_SIZE);
+
+  if (!speech.isSupported) return null;
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => speech.play(briefing.map(articleSpeechItem))}
+      disabled={briefing.length === 0}
+      title={briefing.length === 0 ? "Summaries are needed before they can be read" : undefined}
+      data-testid="button-play-briefing"
+    >
+      <Headphones className="w-4 h-4 mr-2" />
+      Play my briefing{briefing.length > 0 && ` (${briefing.length})`}
+    </Button>
+  );
+}
+
+// Listen/stop toggle for one piece of text, e.g. an article summary
+export function ReadAloudButton({ item, label = "Listen" }: { item: SpeechItem; label?: string }) {
+  const speech = useSpeech();
+  if (!speech.isSupported) return null;
+
+  const isReading = speech.current?.id === item.id;
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 px-2 text-xs"
+      onClick={() => (isReading ? speech.stop() : speech.play([item]))}
+      data-testid={`button-read-aloud-${item.id}`}
+    >
+      {isReading ? <Square className="w-3 h-3 mr-1" /> : <Volume2 className="w-3 h-3 mr-1" />}
+      {isReading ? "Stop" : label}
+    </Button>
+  );
+}
+
+// Playback controls pinned to the bottom of the page while anything is being read
+export function SpeechPlayer() {
+  const speech = useSpeech();
+  const { current, queue, currentIndex, status, voices, voice } = speech;
+
+  if (!current) return null;
+
+  return (
+    <>
+      {/* Keeps the end of the page scrollable above the fixed bar */}
+      <div className="h-16" aria-hidden="true" />
+      <div
+        className="fixed bottom-0 inset-x-0 z-50 border-t border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80"
+        data-testid="speech-player"
+      >
+        <div className="container mx-auto px-4 py-3 flex items-center gap-3">
+          <Volume2 className="w-4 h-4 text-primary shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate" data-testid="text-speech-current">
+              {current.title ?? "Reading aloud"}
+            </p>
+            {queue.length > 1 && (
+              <p className="text-xs text-muted-foreground">
+                {currentIndex + 1} of {queue.length}
+              </p>
+            )}
+          </div>
+
+          {voices.length > 1 && (
+            <Select value={voice?.voiceURI} onValueChange={speech.setVoice}>
+              <SelectTrigger className="w-44 h-8 text-xs hidden sm:flex" data-testid="select-speech-voice">
+                <SelectValue placeholder="Voice" />
+              </SelectTrigger>
+              <SelectContent>
+                {voices.map((option) => (
+                  <SelectItem key={option.voiceURI} value={option.voiceURI}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {status === "paused" ? (
+            <Button variant="ghost" size="icon" onClick={speech.resume} data-testid="button-speech-resume">
+              <Play className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button variant="ghost" size="icon" onClick={speech.pause} data-testid="button-speech-pause">
+              <Pause className="w-4 h-4" />
+            </Button>
+          )}
+          {currentIndex < queue.length - 1 && (
+            <Button variant="ghost" size="icon" onClick={speech.skip} data-testid="button-speech-skip">
+              <SkipForward className="w-4 h-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={speech.stop} data-testid="button-speech-stop">
+            <Square className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,67 +1,102 @@
-import { useState } from "react";
-import { ExternalLink, FileText, Clock, Globe } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { ExternalLink, FileText, Clock, Globe, Square, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { useMutation } from "@tanstack/react-query";
-import { generateTopicSummary } from "@/lib/newsApi";
+import { streamTopicSummary, type TopicSummarySources, type TopicSummaryResult } from "@/lib/newsApi";
 import { useToast } from "@/hooks/use-toast";
+import { ReadAloudButton } from "@/components/speech-player";
 
 interface TopicSummaryProps {
   topic: string;
+  // Start generating straight away, e.g. when opened from a shared link
+  autoGenerate?: boolean;
+  onGenerate?: () => void;
   onClose?: () => void;
 }
 
-interface TopicSummaryData {
-  topic: string;
-  totalArticles: number;
-  articlesAnalyzed: number;
-  summary: string;
-  sourceLinks: Array<{title: string; url: string; source: string}>;
-  lastUpdated: string;
-}
+type SummaryStatus = "idle" | "streaming" | "done" | "cancelled";
 
-export function TopicSummary({ topic, onClose }: TopicSummaryProps) {
-  const [summaryData, setSummaryData] = useState<TopicSummaryData | null>(null);
+export function TopicSummary({ topic, autoGenerate = false, onGenerate, onClose }: TopicSummaryProps) {
+  const [status, setStatus] = useState<SummaryStatus>("idle");
+  const [sources, setSources] = useState<TopicSummarySources | null>(null);
+  const [streamedText, setStreamedText] = useState("");
+  const [result, setResult] = useState<TopicSummaryResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
-  const summaryMutation = useMutation({
-    mutationFn: (searchTopic: string) => generateTopicSummary(searchTopic),
-    onSuccess: (data) => {
-      setSummaryData(data);
-    },
-    onError: (error: any) => {
+  // Stop generating when the panel closes or the topic changes
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, [topic]);
+
+  const handleGenerateSummary = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    onGenerate?.();
+    setStatus("streaming");
+    setSources(null);
+    setStreamedText("");
+    setResult(null);
+
+    try {
+      await streamTopicSummary(topic, {
+        onSources: setSources,
+        onToken: (text) => setStreamedText(prev => prev + text),
+        onReset: () => setStreamedText(""),
+        onDone: setResult,
+      }, controller.signal);
+      setStatus("done");
+    } catch (error: any) {
+      if (controller.signal.aborted) return;
+      setStatus("idle");
+      setSources(null);
       toast({
         title: "Summary Failed",
         description: error.message || "Unable to generate topic summary. Please try again.",
         variant: "destructive",
       });
-    },
-  });
+    }
+  };
+
+  // Read through a ref so auto-generating runs once per topic, not on every render's new handler
+  const generateRef = useRef(handleGenerateSummary);
+  generateRef.current = handleGenerateSummary;
 
-  const handleGenerateSummary = () => {
-    summaryMutation.mutate(topic);
+  useEffect(() => {
+    if (autoGenerate) generateRef.current();
+  }, [autoGenerate, topic]);
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setStatus(sources ? "cancelled" : "idle");
   };
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
 
-  if (summaryMutation.isPending) {
+  if (status === "streaming" && !sources) {
     return (
       <Card className="mb-6" data-testid="topic-summary-loading">
         <CardContent className="text-center py-12">
           <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary mb-4"></div>
           <h3 className="text-lg font-semibold mb-2">Analyzing "{topic}"</h3>
-          <p className="text-muted-foreground">
-            Searching recent articles and generating comprehensive summary...
+          <p className="text-muted-foreground mb-4">
+            Searching recent articles...
           </p>
+          <Button variant="outline" size="sm" onClick={handleCancel} data-testid="button-cancel-topic-summary">
+            <Square className="w-3 h-3 mr-2" />
+            Cancel
+          </Button>
         </CardContent>
       </Card>
     );
   }
 
-  if (!summaryData) {
+  if (!sources) {
     return (
       <Card className="mb-6" data-testid="topic-summary-prompt">
         <CardHeader>
@@ -77,7 +112,6 @@ export function TopicSummary({ topic, onClose }: TopicSummaryProps) {
           </p>
           <Button 
             onClick={handleGenerateSummary}
-            disabled={summaryMutation.isPending}
             data-testid="button-generate-topic-summary"
           >
             <FileText className="w-4 h-4 mr-2" />
@@ -88,6 +122,8 @@ export function TopicSummary({ topic, onClose }: TopicSummaryProps) {
     );
   }
 
+  const sourceLinks = result?.sourceLinks ?? sources.sourceLinks;
+
   return (
     <Card className="mb-6" data-testid="topic-summary-result">
       <CardHeader>
@@ -95,23 +131,58 @@ export function TopicSummary({ topic, onClose }: TopicSummaryProps) {
           <div className="flex-1">
             <CardTitle className="flex items-center gap-2 mb-2">
               <Globe className="w-5 h-5 text-primary" />
-              Topic Summary: {summaryData.topic}
+              Topic Summary: {sources.topic}
             </CardTitle>
             <div className="flex items-center gap-4 text-sm text-muted-foreground">
               <Badge variant="secondary">
-                {summaryData.articlesAnalyzed} articles analyzed
+                {sources.articlesAnalyzed} articles analyzed
               </Badge>
-              <div className="flex items-center gap-1">
-                <Clock className="w-3 h-3" />
-                <span>Updated {formatDate(summaryData.lastUpdated)}</span>
-              </div>
+              {result?.method === "extractive" && (
+                <Badge variant="outline" data-testid="badge-topic-summary-method">
+                  Key sentences (AI unavailable)
+                </Badge>
+              )}
+              {status === "cancelled" && (
+                <Badge variant="outline" data-testid="badge-topic-summary-cancelled">
+                  Stopped
+                </Badge>
+              )}
+              {result && (
+                <div className="flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  <span>Updated {formatDate(result.lastUpdated)}</span>
+                </div>
+              )}
             </div>
           </div>
-          {onClose && (
-            <Button variant="ghost" size="sm" onClick={onClose}>
-              ×
-            </Button>
-          )}
+          <div className="flex items-center gap-1">
+            {result && (
+              <ReadAloudButton
+                item={{
+                  id: `topic-${topic}`,
+                  title: `Topic summary: ${sources.topic}`,
+                  text: result.segments.map(segment => segment.text).join(""),
+                }}
+              />
+            )}
+            {status === "streaming" && (
+              <Button variant="outline" size="sm" onClick={handleCancel} data-testid="button-cancel-topic-summary">
+                <Square className="w-3 h-3 mr-2" />
+                Stop
+              </Button>
+            )}
+            {status === "cancelled" && (
+              <Button variant="outline" size="sm" onClick={handleGenerateSummary} data-testid="button-regenerate-topic-summary">
+                <RefreshCw className="w-3 h-3 mr-2" />
+                Regenerate
+              </Button>
+            )}
+            {onClose && (
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                ×
+              </Button>
+            )}
+          </div>
         </div>
       </CardHeader>
       
@@ -120,7 +191,33 @@ export function TopicSummary({ topic, onClose }: TopicSummaryProps) {
         <div className="mb-6">
           <div className="bg-muted/50 p-4 rounded-lg">
             <p className="text-foreground leading-relaxed whitespace-pre-line" data-testid="text-topic-summary">
-              {summaryData.summary}
+              {/* The final, citation-linked summary replaces the streamed preview (they differ if the model failed mid-stream) */}
+              {result ? (
+                result.segments.map((segment, index) => (
+                  <span key={index}>
+                    {segment.text}
+                    {segment.citations.map(citation => (
+                      <sup key={citation}>
+                        <a
+                          href={sourceLinks[citation].url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title={`${sourceLinks[citation].title} (${sourceLinks[citation].source})`}
+                          className="ml-0.5 text-primary hover:underline"
+                          data-testid={`link-citation-${index}-${citation}`}
+                        >
+                          [{citation + 1}]
+                        </a>
+                      </sup>
+                    ))}
+                  </span>
+                ))
+              ) : streamedText || (status === "streaming" && (
+                <span className="text-muted-foreground">Generating summary...</span>
+              ))}
+              {status === "streaming" && streamedText && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-primary animate-pulse" />
+              )}
             </p>
           </div>
         </div>
@@ -129,15 +226,16 @@ export function TopicSummary({ topic, onClose }: TopicSummaryProps) {
         <div>
           <h4 className="font-semibold mb-3 flex items-center gap-2">
             <ExternalLink className="w-4 h-4" />
-            Sources for Deep Dive Reading ({summaryData.sourceLinks.length})
+            Sources for Deep Dive Reading ({sourceLinks.length})
           </h4>
           <div className="space-y-2">
-            {summaryData.sourceLinks.map((link, index) => (
+            {sourceLinks.map((link, index) => (
               <div 
                 key={index}
                 className="flex items-start justify-between p-3 border rounded-lg hover:bg-muted/30 transition-colors"
                 data-testid={`source-link-${index}`}
               >
+                <span className="text-xs font-semibold text-primary mr-2 mt-0.5">[{index + 1}]</span>
                 <div className="flex-1 min-w-0 mr-3">
                   <h5 className="font-medium text-sm line-clamp-2 mb-1">
                     {link.title}
@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ApiError, queryClient } from "@/lib/queryClient";
+import { createSummaryJob, fetchSummaryJob } from "@/lib/newsApi";
+import type { Article } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 1500;
+
+interface AutoSummarizeOptions {
+  articles: Article[];
+  enabled: boolean;
+  summaryLength: "short" | "medium" | "long";
+  onSummary: (articleId: string, summary: string, method: string) => void;
+}
+
+/**
+ * Queues a background summary job for displayed articles that have no summary
+ * yet and reports each summary through `onSummary` as soon as the job
+ * finishes it. One job runs at a time; articles that arrive meanwhile are
+ * picked up once it completes. The server caps how many articles a session
+ * may queue, and auto-summarizing stops for the session once that is used up.
+ */
+export function useAutoSummarize({ articles, enabled, summaryLength, onSummary }: AutoSummarizeOptions) {
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [budgetExhausted, setBudgetExhausted] = useState(false);
+  const requested = useRef(new Set<string>());
+  const delivered = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!enabled || budgetExhausted || jobId) return;
+
+    const articleIds = articles
+      .filter(article => !article.aiSummary && !requested.current.has(article.id))
+      .map(article => article.id);
+    if (articleIds.length === 0) return;
+
+    articleIds.forEach(id => requested.current.add(id));
+    createSummaryJob(articleIds, summaryLength)
+      .then(job => {
+        setJobId(job.id);
+        if (job.budgetRemaining === 0) setBudgetExhausted(true);
+      })
+      .catch((error: unknown) => {
+        if (error instanceof ApiError && error.status === 429) {
+          setBudgetExhausted(true);
+        } else {
+          // Nothing was queued, so these articles are asked for again on the next pass
+          articleIds.forEach(id => requested.current.delete(id));
+          console.error("Failed to queue auto-summaries:", error);
+        }
+      });
+  }, [articles, enabled, summaryLength, jobId, budgetExhausted]);
+
+  const { data: job } = useQuery({
+    queryKey: ['/api/summarize/jobs', jobId],
+    queryFn: () => fetchSummaryJob(jobId!),
+    enabled: !!jobId,
+    refetchInterval: (query) => query.state.data?.status === 'completed' ? false : POLL_INTERVAL_MS,
+  });
+
+  useEffect(() => {
+    if (!job || job.id !== jobId) return;
+
+    for (const item of job.items) {
+      if (item.status === 'succeeded' && !delivered.current.has(item.articleId)) {
+        delivered.current.add(item.articleId);
+        onSummary(item.articleId, item.summary!, item.method!);
+      }
+    }
+
+    if (job.status === 'completed') {
+      // Summaries are stored on the articles now, so cached feeds and the reading list are out of date
+      queryClient.invalidateQueries({ queryKey: ['/api/news'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bookmarks'] });
+      setJobId(null);
+    }
+  }, [job, jobId, onSummary]);
+
+  return {
+    job: jobId ? job : undefined,
+    isSummarizing: !!jobId,
+    budgetExhausted,
+  };
+}
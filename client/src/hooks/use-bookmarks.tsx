@@ -0,0 +1,85 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { fetchBookmarks, addBookmark, removeBookmark } from "@/lib/newsApi";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Article } from "@shared/schema";
+
+/**
+ * The logged-in user's reading list. Every card shares the same query, so
+ * toggling a bookmark anywhere updates the icon on all cards and on /saved.
+ */
+export function useBookmarks() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  // Keyed by user so someone signing in on the same tab never sees the previous user's list
+  const bookmarksQueryKey = ['/api/bookmarks', user?.id];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: bookmarksQueryKey,
+    queryFn: fetchBookmarks,
+    enabled: !!user,
+  });
+
+  const savedArticles = user ? data?.articles ?? [] : [];
+  const bookmarkedIds = new Set(savedArticles.map(article => article.id));
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ article, bookmarked }: { article: Article; bookmarked: boolean }) => {
+      if (bookmarked) {
+        await removeBookmark(article.id);
+      } else {
+        await addBookmark(article.id);
+      }
+    },
+    onMutate: async ({ article, bookmarked }) => {
+      await queryClient.cancelQueries({ queryKey: bookmarksQueryKey });
+      const previous = queryClient.getQueryData<{ articles: Article[] }>(bookmarksQueryKey);
+      const articles = previous?.articles ?? [];
+      queryClient.setQueryData(bookmarksQueryKey, {
+        articles: bookmarked
+          ? articles.filter(saved => saved.id !== article.id)
+          : [article, ...articles],
+      });
+      return { previous };
+    },
+    onSuccess: (_data, { bookmarked }) => {
+      toast({
+        title: bookmarked ? "Bookmark Removed" : "Article Bookmarked",
+        description: bookmarked
+          ? "Article removed from bookmarks"
+          : "Article saved to bookmarks",
+      });
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(bookmarksQueryKey, context?.previous);
+      toast({
+        title: "Bookmark Failed",
+        description: "Unable to update your bookmarks. Please try again.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: bookmarksQueryKey });
+    },
+  });
+
+  const toggleBookmark = (article: Article) => {
+    if (!user) {
+      toast({
+        title: "Sign In Required",
+        description: "Sign in to save articles to your reading list.",
+      });
+      return;
+    }
+    toggleMutation.mutate({ article, bookmarked: bookmarkedIds.has(article.id) });
+  };
+
+  return {
+    savedArticles,
+    isLoading: !!user && isLoading,
+    error,
+    isBookmarked: (articleId: string) => bookmarkedIds.has(articleId),
+    toggleBookmark,
+  };
+}
@@ -0,0 +1,24 @@
+import { useCallback, useMemo } from "react";
+import { useLocation, useSearch } from "wouter";
+import { parseFeedSearch, toFeedSearch, type FeedView } from "@/lib/feedUrl";
+
+/**
+ * Keeps the feed's filters, loaded page count and topic summary state in the
+ * query string, so a view can be bookmarked or shared and the back button
+ * walks through earlier filter changes. Pass `replace` for updates that
+ * should not get their own history entry (e.g. loading another page).
+ */
+export function useFeedUrl() {
+  const search = useSearch();
+  const [location, setLocation] = useLocation();
+  const view = useMemo(() => parseFeedSearch(search), [search]);
+
+  const updateView = useCallback((changes: Partial<FeedView>, options: { replace?: boolean } = {}) => {
+    const next = toFeedSearch({ ...view, ...changes });
+    const current = toFeedSearch(view);
+    if (next === current) return;
+    setLocation(`${location}${next}`, { replace: options.replace });
+  }, [view, location, setLocation]);
+
+  return { view, updateView };
+}
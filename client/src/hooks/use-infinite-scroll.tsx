@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+
+interface InfiniteScrollOptions {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+  // Start loading this far before the sentinel scrolls into view
+  rootMargin?: string;
+}
+
+/**
+ * Calls `onLoadMore` whenever the element the returned ref is attached to
+ * comes into view. The observer is recreated after each page arrives, so a
+ * sentinel that is still visible (a short page, a tall screen) keeps loading
+ * until it is pushed out of view or there are no more pages.
+ */
+export function useInfiniteScroll<T extends Element = HTMLDivElement>({
+  hasNextPage,
+  isFetchingNextPage,
+  onLoadMore,
+  rootMargin = "400px",
+}: InfiniteScrollOptions) {
+  const sentinelRef = useRef<T>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || isFetchingNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, rootMargin]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,124 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { fetchMyPreferences, saveMyPreferences } from "@/lib/newsApi";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { UserPreferences as StoredUserPreferences } from "@shared/schema";
+
+export interface UserPreferences {
+  preferredSources: string[];
+  autoSummarize: boolean;
+  summaryLength: "short" | "medium" | "long";
+  voiceSearchEnabled: boolean;
+  voiceLanguage: string;
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  preferredSources: [],
+  autoSummarize: true,
+  summaryLength: "medium",
+  voiceSearchEnabled: true,
+  voiceLanguage: "en-US",
+};
+
+const STORAGE_KEY = 'newsai-preferences';
+const MIGRATED_KEY_PREFIX = 'newsai-preferences-migrated:';
+
+function loadLocalPreferences(): UserPreferences | null {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return null;
+
+  try {
+    return { ...DEFAULT_PREFERENCES, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Error loading preferences:', error);
+    return null;
+  }
+}
+
+function fromStoredPreferences(stored: StoredUserPreferences): UserPreferences {
+  return {
+    preferredSources: Array.isArray(stored.preferredSources) ? stored.preferredSources as string[] : [],
+    autoSummarize: stored.autoSummarize ?? DEFAULT_PREFERENCES.autoSummarize,
+    summaryLength: (stored.summaryLength as UserPreferences["summaryLength"]) ?? DEFAULT_PREFERENCES.summaryLength,
+    voiceSearchEnabled: stored.voiceSearchEnabled ?? DEFAULT_PREFERENCES.voiceSearchEnabled,
+    voiceLanguage: stored.voiceLanguage ?? DEFAULT_PREFERENCES.voiceLanguage,
+  };
+}
+
+// Settings already saved on the server win; preferred sources from this browser are added to them
+function mergePreferences(local: UserPreferences, server: UserPreferences | null): UserPreferences {
+  if (!server) return local;
+
+  return {
+    ...server,
+    preferredSources: Array.from(new Set([...server.preferredSources, ...local.preferredSources])),
+  };
+}
+
+/**
+ * Preferences for the current visitor: stored server-side for logged-in users
+ * and in localStorage otherwise. The first time a user logs in on a browser,
+ * the preferences saved there are merged into their account.
+ */
+export function usePreferences() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [localPreferences, setLocalPreferences] = useState<UserPreferences>(
+    () => loadLocalPreferences() ?? DEFAULT_PREFERENCES
+  );
+
+  const preferencesQueryKey = ['/api/me/preferences', user?.id];
+
+  const { data: serverPreferences, isSuccess: serverLoaded } = useQuery({
+    queryKey: preferencesQueryKey,
+    queryFn: async () => {
+      const stored = await fetchMyPreferences();
+      return stored ? fromStoredPreferences(stored) : null;
+    },
+    enabled: !!user,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (preferences: UserPreferences) => saveMyPreferences(preferences),
+    onSuccess: (stored) => {
+      queryClient.setQueryData(preferencesQueryKey, fromStoredPreferences(stored));
+    },
+    onError: () => {
+      toast({
+        title: "Settings Not Synced",
+        description: "Unable to save your preferences to your account. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // One-time migration of this browser's preferences into the account
+  useEffect(() => {
+    if (!user || !serverLoaded) return;
+
+    const migratedKey = `${MIGRATED_KEY_PREFIX}${user.id}`;
+    if (localStorage.getItem(migratedKey)) return;
+    localStorage.setItem(migratedKey, 'true');
+
+    const saved = loadLocalPreferences();
+    if (saved) {
+      saveMutation.mutate(mergePreferences(saved, serverPreferences ?? null));
+    }
+  }, [user, serverLoaded, serverPreferences]);
+
+  const preferences = user && serverPreferences ? serverPreferences : localPreferences;
+
+  const updatePreferences = (newPreferences: UserPreferences) => {
+    if (user) {
+      queryClient.setQueryData(preferencesQueryKey, newPreferences);
+      saveMutation.mutate(newPreferences);
+    } else {
+      setLocalPreferences(newPreferences);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(newPreferences));
+    }
+  };
+
+  return { preferences, updatePreferences };
+}
@@ -0,0 +1,43 @@
+import { useEffect, useRef } from "react";
+
+const STORAGE_PREFIX = "newsai-scroll:";
+
+/**
+ * Remembers the window scroll position under `key` for the browser session
+ * and scrolls back to it the first time `ready` is true after mounting, e.g.
+ * once a feed has rendered the pages it had before the user navigated away.
+ * The position is saved while scrolling rather than on unmount, since by then
+ * the next page may already have replaced the content and reset the scroll.
+ */
+export function useScrollRestoration(key: string, ready: boolean) {
+  const storageKey = STORAGE_PREFIX + key;
+  const restored = useRef(false);
+
+  useEffect(() => {
+    if (!ready || restored.current) return;
+    restored.current = true;
+
+    const saved = Number(sessionStorage.getItem(storageKey));
+    if (saved > 0) {
+      // Wait a frame so the restored content has been laid out
+      requestAnimationFrame(() => window.scrollTo(0, saved));
+    }
+  }, [ready, storageKey]);
+
+  useEffect(() => {
+    let frame = 0;
+    const onScroll = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        sessionStorage.setItem(storageKey, String(Math.round(window.scrollY)));
+      });
+    };
+
+    window.addEventListener("scroll", onScroll, { passive: true });
+    return () => {
+      window.removeEventListener("scroll", onScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [storageKey]);
+}
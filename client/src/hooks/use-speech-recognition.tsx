@@ -6,6 +6,34 @@ interface SpeechRecognitionResult {
   isFinal: boolean;
 }
 
+// The parts of the Web Speech API used here; TypeScript's DOM types do not include it
+interface SpeechRecognitionAlternativeLike {
+  transcript: string;
+  confidence: number;
+}
+
+interface SpeechRecognitionEvent {
+  resultIndex: number;
+  results: ArrayLike<ArrayLike<SpeechRecognitionAlternativeLike> & { isFinal: boolean }>;
+}
+
+interface SpeechRecognitionErrorEvent {
+  error: string;
+}
+
+interface SpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onstart: (() => void) | null;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
 interface UseSpeechRecognitionOptions {
   language?: string;
   continuous?: boolean;
@@ -46,10 +74,10 @@ export function useSpeechRecognition(options: UseSpeechRecognitionOptions = {}):
         (window as any).SpeechRecognition || 
         (window as any).webkitSpeechRecognition;
 
-      recognitionRef.current = new SpeechRecognition();
-      const recognition = recognitionRef.current;
+      const recognition: SpeechRecognition = new SpeechRecognition();
+      recognitionRef.current = recognition;
 
-      recognition.language = language;
+      recognition.lang = language;
       recognition.continuous = continuous;
       recognition.interimResults = true;
       recognition.maxAlternatives = 1;
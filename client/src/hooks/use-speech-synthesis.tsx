@@ -0,0 +1,239 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+
+export interface SpeechItem {
+  // Identifies what is being read, e.g. "article-<id>", so its button can show a stop control
+  id: string;
+  title?: string;
+  text: string;
+}
+
+type SpeechStatus = "idle" | "speaking" | "paused";
+
+interface SpeechContextType {
+  isSupported: boolean;
+  status: SpeechStatus;
+  queue: SpeechItem[];
+  currentIndex: number;
+  current: SpeechItem | null;
+  // Voices for the current language, best match first
+  voices: SpeechSynthesisVoice[];
+  voice: SpeechSynthesisVoice | null;
+  setVoice: (voiceURI: string) => void;
+  play: (items: SpeechItem[]) => void;
+  pause: () => void;
+  resume: () => void;
+  skip: () => void;
+  stop: () => void;
+}
+
+const VOICE_STORAGE_KEY = "newsai-tts-voice";
+// Some browsers cut off long utterances, so text is read in sentence-sized pieces
+const MAX_CHUNK_LENGTH = 200;
+
+const SpeechContext = createContext<SpeechContextType | null>(null);
+
+function normalizeLang(lang: string): string {
+  return lang.replace("_", "-").toLowerCase();
+}
+
+// Exact language-region matches first, then the same language from other regions
+function voicesFor(language: string, voices: SpeechSynthesisVoice[]): SpeechSynthesisVoice[] {
+  const tag = normalizeLang(language);
+  const base = tag.split("-")[0];
+  const exact = voices.filter(voice => normalizeLang(voice.lang) === tag);
+  const sameLanguage = voices.filter(voice =>
+    normalizeLang(voice.lang) !== tag && normalizeLang(voice.lang).split("-")[0] === base
+  );
+  return [...exact, ...sameLanguage];
+}
+
+function splitIntoChunks(text: string, maxLength = MAX_CHUNK_LENGTH): string[] {
+  const sentences = text.match(/[^.!?。！？]+[.!?。！？]*\s*/g) ?? [text];
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const sentence of sentences) {
+    if ((current + sentence).length <= maxLength) {
+      current += sentence;
+      continue;
+    }
+    if (current.trim()) chunks.push(current.trim());
+    current = sentence;
+
+    // A single sentence longer than the limit is split between words
+    while (current.length > maxLength) {
+      const cut = current.lastIndexOf(" ", maxLength);
+      const end = cut > 0 ? cut : maxLength;
+      chunks.push(current.slice(0, end).trim());
+      current = current.slice(end);
+    }
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+}
+
+/**
+ * Reads text aloud with the Web Speech synthesis API. Holds one queue for the
+ * whole page, so starting to read an article replaces a briefing in progress
+ * and every read-aloud button shares the same pause/skip controls. Voices are
+ * picked to match `language` (the user's voiceLanguage preference); a voice
+ * the user chose explicitly is remembered in localStorage.
+ */
+export function SpeechProvider({ language, children }: { language: string; children: ReactNode }) {
+  const isSupported = typeof window !== "undefined" && "speechSynthesis" in window;
+  const [allVoices, setAllVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [preferredVoiceURI, setPreferredVoiceURI] = useState<string | null>(
+    () => localStorage.getItem(VOICE_STORAGE_KEY)
+  );
+  const [queue, setQueue] = useState<SpeechItem[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [status, setStatus] = useState<SpeechStatus>("idle");
+
+  // Utterance callbacks outlive renders, so playback state they read lives in refs
+  const queueRef = useRef<SpeechItem[]>([]);
+  const indexRef = useRef(0);
+  // Bumped whenever playback is interrupted so callbacks from cancelled utterances are ignored
+  const generationRef = useRef(0);
+  const voiceRef = useRef<SpeechSynthesisVoice | null>(null);
+  const languageRef = useRef(language);
+  languageRef.current = language;
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!isSupported) return;
+    const loadVoices = () => setAllVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener("voiceschanged", loadVoices);
+    return () => window.speechSynthesis.removeEventListener("voiceschanged", loadVoices);
+  }, [isSupported]);
+
+  const voices = useMemo(() => voicesFor(language, allVoices), [language, allVoices]);
+  const voice = voices.find(v => v.voiceURI === preferredVoiceURI)
+    ?? voices.find(v => v.default)
+    ?? voices[0]
+    ?? null;
+  voiceRef.current = voice;
+
+  const finish = useCallback(() => {
+    generationRef.current++;
+    queueRef.current = [];
+    indexRef.current = 0;
+    setQueue([]);
+    setCurrentIndex(0);
+    setStatus("idle");
+  }, []);
+
+  const speakItem = useCallback((index: number) => {
+    const item = queueRef.current[index];
+    if (!item) {
+      finish();
+      return;
+    }
+
+    const generation = ++generationRef.current;
+    indexRef.current = index;
+    setCurrentIndex(index);
+    setStatus("speaking");
+
+    const text = item.title ? `${item.title}. ${item.text}` : item.text;
+    const chunks = splitIntoChunks(text);
+
+    const speakChunk = (chunkIndex: number) => {
+      if (generation !== generationRef.current) return;
+      if (chunkIndex >= chunks.length) {
+        speakItem(index + 1);
+        return;
+      }
+
+      const utterance = new SpeechSynthesisUtterance(chunks[chunkIndex]);
+      utterance.lang = voiceRef.current?.lang ?? languageRef.current;
+      if (voiceRef.current) utterance.voice = voiceRef.current;
+      utterance.onend = () => speakChunk(chunkIndex + 1);
+      utterance.onerror = (event) => {
+        // Cancelling (skip, stop, a new queue) reports as an error; anything else skips the chunk
+        if (event.error === "interrupted" || event.error === "canceled") return;
+        console.error("Speech synthesis error:", event.error);
+        speakChunk(chunkIndex + 1);
+      };
+      window.speechSynthesis.speak(utterance);
+    };
+
+    window.speechSynthesis.cancel();
+    speakChunk(0);
+  }, [finish]);
+
+  const play = useCallback((items: SpeechItem[]) => {
+    if (!isSupported || items.length === 0) return;
+    queueRef.current = items;
+    setQueue(items);
+    speakItem(0);
+  }, [isSupported, speakItem]);
+
+  const pause = useCallback(() => {
+    if (!isSupported) return;
+    window.speechSynthesis.pause();
+    setStatus("paused");
+  }, [isSupported]);
+
+  const resume = useCallback(() => {
+    if (!isSupported) return;
+    window.speechSynthesis.resume();
+    setStatus("speaking");
+  }, [isSupported]);
+
+  const skip = useCallback(() => {
+    if (!isSupported) return;
+    // A paused synthesizer stays paused after cancel in some browsers
+    window.speechSynthesis.resume();
+    speakItem(indexRef.current + 1);
+  }, [isSupported, speakItem]);
+
+  const stop = useCallback(() => {
+    if (!isSupported) return;
+    finish();
+    window.speechSynthesis.cancel();
+  }, [isSupported, finish]);
+
+  const setVoice = useCallback((voiceURI: string) => {
+    localStorage.setItem(VOICE_STORAGE_KEY, voiceURI);
+    setPreferredVoiceURI(voiceURI);
+  }, []);
+
+  // Nothing keeps reading once the page that started it is gone
+  useEffect(() => {
+    return () => {
+      generationRef.current++;
+      if (isSupported) window.speechSynthesis.cancel();
+    };
+  }, [isSupported]);
+
+  return (
+    <SpeechContext.Provider
+      value={{
+        isSupported,
+        status,
+        queue,
+        currentIndex,
+        current: status === "idle" ? null : queue[currentIndex] ?? null,
+        voices,
+        voice,
+        setVoice,
+        play,
+        pause,
+        resume,
+        skip,
+        stop,
+      }}
+    >
+      {children}
+    </SpeechContext.Provider>
+  );
+}
+
+export function useSpeech() {
+  const context = useContext(SpeechContext);
+  if (!context) {
+    throw new Error("useSpeech must be used within a SpeechProvider");
+  }
+  return context;
+}
@@ -1,9 +1,14 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useSpeechRecognition } from "./use-speech-recognition";
+import { parseVoiceCommand, type VoiceCommand } from "@/lib/voiceCommands";
+
+// How long the "understood as" confirmation stays up after a command
+const CONFIRMATION_MS = 5000;
 
 interface UseVoiceSearchOptions {
+  // BCP 47 tag for recognition, e.g. "en-US"; also picks which lead-in phrases are stripped
   language?: string;
-  onSearch?: (query: string) => void;
+  onCommand?: (command: VoiceCommand) => void;
 }
 
 interface VoiceSearchHook {
@@ -13,11 +18,15 @@ interface VoiceSearchHook {
   startVoiceSearch: () => void;
   stopVoiceSearch: () => void;
   error: string | null;
+  // The last command heard, shown back to the user as confirmation
+  lastCommand: VoiceCommand | null;
 }
 
 export function useVoiceSearch(options: UseVoiceSearchOptions = {}): VoiceSearchHook {
-  const { language = "en-US", onSearch } = options;
+  const { language = "en-US", onCommand } = options;
   const [error, setError] = useState<string | null>(null);
+  const [lastCommand, setLastCommand] = useState<VoiceCommand | null>(null);
+  const confirmationTimer = useRef<ReturnType<typeof setTimeout>>();
 
   const {
     transcript,
@@ -42,37 +51,22 @@ export function useVoiceSearch(options: UseVoiceSearchOptions = {}): VoiceSearch
     },
   });
 
-  const processVoiceCommand = useCallback((command: string) => {
-    // Extract search parameters from voice command
-    const lowerCommand = command.toLowerCase();
-    
-    // Simple command processing - can be enhanced with NLP
-    let searchQuery = command;
-    
-    // Remove common voice search prefixes
-    const prefixes = [
-      "search for",
-      "find",
-      "show me",
-      "get",
-      "look for",
-      "filter",
-    ];
-    
-    for (const prefix of prefixes) {
-      if (lowerCommand.startsWith(prefix)) {
-        searchQuery = command.substring(prefix.length).trim();
-        break;
-      }
-    }
-    
-    if (onSearch && searchQuery) {
-      onSearch(searchQuery);
-    }
-  }, [onSearch]);
+  const processVoiceCommand = useCallback((transcript: string) => {
+    const command = parseVoiceCommand(transcript, language);
+    if (command.type === "search" && !Object.values(command.filters).some(Boolean)) return;
+
+    setLastCommand(command);
+    clearTimeout(confirmationTimer.current);
+    confirmationTimer.current = setTimeout(() => setLastCommand(null), CONFIRMATION_MS);
+
+    onCommand?.(command);
+  }, [language, onCommand]);
+
+  useEffect(() => () => clearTimeout(confirmationTimer.current), []);
 
   const startVoiceSearch = useCallback(() => {
     setError(null);
+    setLastCommand(null);
     startListening();
   }, [startListening]);
 
@@ -87,5 +81,6 @@ export function useVoiceSearch(options: UseVoiceSearchOptions = {}): VoiceSearch
     startVoiceSearch,
     stopVoiceSearch,
     error,
+    lastCommand,
   };
 }
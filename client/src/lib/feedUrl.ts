@@ -0,0 +1,103 @@
+import {
+  newsLanguages,
+  searchInFields,
+  sentimentLabels,
+  type NewsLanguage,
+  type SearchInField,
+  type SentimentLabel,
+} from "@shared/schema";
+
+export const sortOptions = ["relevancy", "popularity", "publishedAt"] as const;
+export type SortOption = typeof sortOptions[number];
+
+// The filters a user picks in the feed; what ends up in the address bar
+export interface FeedFilters {
+  country?: string;
+  category?: string;
+  sources?: string[];
+  q?: string;
+  searchIn?: SearchInField[];
+  language?: NewsLanguage;
+  // yyyy-mm-dd
+  from?: string;
+  to?: string;
+  sentiment?: SentimentLabel;
+  sortBy?: SortOption;
+}
+
+export interface FeedView {
+  filters: FeedFilters;
+  // How many pages of the feed are loaded
+  page: number;
+  // The topic summary for `filters.q` has been generated
+  summary: boolean;
+}
+
+function oneOf<T extends string>(values: readonly T[], value: string | null): T | undefined {
+  return values.find(candidate => candidate === value);
+}
+
+function list(value: string | null): string[] {
+  return (value ?? "").split(",").map(item => item.trim()).filter(Boolean);
+}
+
+function isoDate(value: string | null): string | undefined {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+}
+
+// Date range, language, search fields and sort order only exist on the search endpoint
+export function usesSearch(filters: FeedFilters): boolean {
+  return !!(filters.q || filters.from || filters.to || filters.language || filters.searchIn?.length);
+}
+
+/**
+ * Reads a feed view from a query string such as
+ * `country=gb&category=science&q=climate&page=2`. Unknown parameters and
+ * values outside the allowed sets are dropped rather than sent to the API.
+ */
+export function parseFeedSearch(search: string): FeedView {
+  const params = new URLSearchParams(search);
+  const sources = list(params.get("sources"));
+  const searchIn = list(params.get("searchIn")).flatMap(field => oneOf(searchInFields, field) ?? []);
+  const page = parseInt(params.get("page") ?? "", 10);
+
+  const filters: FeedFilters = {
+    country: params.get("country") || undefined,
+    category: params.get("category") || undefined,
+    sources: sources.length > 0 ? sources : undefined,
+    q: params.get("q")?.trim() || undefined,
+    searchIn: searchIn.length > 0 ? searchIn : undefined,
+    language: oneOf(newsLanguages, params.get("language")),
+    from: isoDate(params.get("from")),
+    to: isoDate(params.get("to")),
+    sentiment: oneOf(sentimentLabels, params.get("sentiment")),
+    sortBy: oneOf(sortOptions, params.get("sortBy")),
+  };
+
+  return {
+    filters,
+    page: page > 1 ? page : 1,
+    summary: !!filters.q && params.get("summary") === "1",
+  };
+}
+
+// The inverse of parseFeedSearch; defaults are left out so the plain feed stays at "/"
+export function toFeedSearch({ filters, page, summary }: FeedView): string {
+  const params = new URLSearchParams();
+  if (filters.q) params.set("q", filters.q);
+  if (filters.searchIn?.length) params.set("searchIn", filters.searchIn.join(","));
+  if (filters.language) params.set("language", filters.language);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.country) params.set("country", filters.country);
+  if (filters.category) params.set("category", filters.category);
+  if (filters.sources?.length) params.set("sources", filters.sources.join(","));
+  if (filters.sentiment) params.set("sentiment", filters.sentiment);
+  if (filters.sortBy) params.set("sortBy", filters.sortBy);
+  if (page > 1) params.set("page", String(page));
+  if (summary && filters.q) params.set("summary", "1");
+
+  // Commas are safe in a query string and keep source lists readable
+  const search = params.toString().replace(/%2C/g, ",");
+  return search ? `?${search}` : "";
+}
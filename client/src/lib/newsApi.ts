@@ -1,10 +1,12 @@
-import { apiRequest } from "./queryClient";
-import type { NewsFilters, Article } from "@shared/schema";
+import { ApiError, apiRequest, throwIfResNotOk } from "./queryClient";
+import type { NewsFilters, Article, Bookmark, UserPreferences, UpdateUserPreferences } from "@shared/schema";
 
 interface NewsResponse {
   status: string;
   totalResults: number;
   articles: Article[];
+  // The news service is rate limiting the server, so these are older cached results
+  stale?: boolean;
 }
 
 interface NewsSource {
@@ -76,7 +78,7 @@ export async function fetchNewsSources(country?: string, category?: string): Pro
 export async function summarizeArticles(
   articles: { title: string; content: string; description?: string }[],
   summaryLength?: "short" | "medium" | "long"
-): Promise<{ summaries: string[] }> {
+): Promise<{ summaries: string[]; methods: string[] }> {
   const response = await apiRequest(
     'POST',
     '/api/summarize',
@@ -89,7 +91,7 @@ export async function summarizeArticles(
 export async function summarizeArticle(
   articleId: string,
   summaryLength?: "short" | "medium" | "long"
-): Promise<{ article: Article; summary: string }> {
+): Promise<{ article: Article; summary: string; method: string }> {
   const response = await apiRequest(
     'POST',
     `/api/summarize-article/${articleId}`,
@@ -99,6 +101,12 @@ export async function summarizeArticle(
   return response.json();
 }
 
+// A stored article with its full text (fullContent) for the reader view; null fullContent means extraction failed
+export async function fetchArticle(articleId: string): Promise<Article> {
+  const response = await apiRequest('GET', `/api/articles/${articleId}`);
+  return response.json();
+}
+
 export async function generateTopicSummary(
   topic: string
 ): Promise<{
@@ -106,7 +114,9 @@ export async function generateTopicSummary(
   totalArticles: number;
   articlesAnalyzed: number;
   summary: string;
+  segments: CitedSegment[];
   sourceLinks: Array<{title: string; url: string; source: string}>;
+  method: string;
   lastUpdated: string;
 }> {
   const response = await apiRequest(
@@ -117,3 +127,173 @@ export async function generateTopicSummary(
   
   return response.json();
 }
+
+// Summary text followed by the 0-based indices of the sourceLinks it cites
+export interface CitedSegment {
+  text: string;
+  citations: number[];
+}
+
+export interface TopicSummarySources {
+  topic: string;
+  totalArticles: number;
+  articlesAnalyzed: number;
+  sourceLinks: Array<{title: string; url: string; source: string}>;
+}
+
+export interface TopicSummaryResult {
+  summary: string;
+  segments: CitedSegment[];
+  sourceLinks: Array<{title: string; url: string; source: string}>;
+  method: string;
+  lastUpdated: string;
+}
+
+export interface SummaryJobItem {
+  articleId: string;
+  status: 'pending' | 'running' | 'succeeded' | 'failed';
+  attempts: number;
+  summary?: string;
+  method?: string;
+  error?: string;
+}
+
+export interface SummaryJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed';
+  summaryLength: string;
+  items: SummaryJobItem[];
+  total: number;
+  succeeded: number;
+  failed: number;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export async function createSummaryJob(
+  articleIds: string[],
+  summaryLength: 'short' | 'medium' | 'long' = 'medium'
+): Promise<SummaryJob & { budgetRemaining: number }> {
+  const response = await apiRequest('POST', '/api/summarize/jobs', { articleIds, summaryLength });
+  return response.json();
+}
+
+export async function fetchSummaryJob(jobId: string): Promise<SummaryJob> {
+  const response = await apiRequest('GET', `/api/summarize/jobs/${jobId}`);
+  return response.json();
+}
+
+export interface TopicSummaryStreamHandlers {
+  onSources: (sources: TopicSummarySources) => void;
+  onToken: (text: string) => void;
+  // The text streamed so far was discarded; tokens that follow start a new summary
+  onReset: () => void;
+  onDone: (result: TopicSummaryResult) => void;
+}
+
+/**
+ * Stream a topic summary from /api/topic-summary/stream. Uses fetch rather
+ * than EventSource so error responses keep their status and message, and so
+ * the stream can be cancelled through `signal`. Resolves once the summary is
+ * done; rejects if the server reports an error or the stream is aborted.
+ */
+export async function streamTopicSummary(
+  topic: string,
+  handlers: TopicSummaryStreamHandlers,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await fetch(
+    `/api/topic-summary/stream?topic=${encodeURIComponent(topic)}`,
+    { headers: { Accept: 'text/event-stream' }, credentials: 'include', signal }
+  );
+  await throwIfResNotOk(response);
+
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+      }
+      if (dataLines.length === 0) continue;
+      const data = JSON.parse(dataLines.join('\n'));
+
+      switch (event) {
+        case 'articles':
+          handlers.onSources(data);
+          break;
+        case 'token':
+          handlers.onToken(data.text);
+          break;
+        case 'reset':
+          handlers.onReset();
+          break;
+        case 'done':
+          handlers.onDone(data);
+          return;
+        case 'error':
+          // The stream already answered 200, so the status comes from the error code
+          throw new ApiError(data.message, data.code === 'rate_limited' ? 429 : 500, data.code, data.details);
+      }
+    }
+  }
+
+  throw new Error('Topic summary stream ended unexpectedly');
+}
+
+// Resolves to null when the logged-in user has never saved preferences
+export async function fetchMyPreferences(): Promise<UserPreferences | null> {
+  const response = await fetch('/api/me/preferences', { credentials: 'include' });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  await throwIfResNotOk(response);
+  return response.json();
+}
+
+export async function saveMyPreferences(
+  preferences: UpdateUserPreferences
+): Promise<UserPreferences> {
+  const response = await apiRequest(
+    'PUT',
+    '/api/me/preferences',
+    preferences
+  );
+  
+  return response.json();
+}
+
+export async function fetchBookmarks(): Promise<{ articles: Article[] }> {
+  const response = await apiRequest('GET', '/api/bookmarks');
+  
+  return response.json();
+}
+
+export async function addBookmark(articleId: string): Promise<Bookmark> {
+  const response = await apiRequest(
+    'POST',
+    '/api/bookmarks',
+    { articleId }
+  );
+  
+  return response.json();
+}
+
+export async function removeBookmark(articleId: string): Promise<void> {
+  await apiRequest('DELETE', `/api/bookmarks/${articleId}`);
+}
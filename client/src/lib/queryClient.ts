@@ -1,9 +1,35 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
-async function throwIfResNotOk(res: Response) {
+/**
+ * A failed API call. The server answers errors with `{ code, message, details }`;
+ * responses that are not in that shape (e.g. a proxy error page) keep their
+ * raw text as the message and get the code "http_error".
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: string,
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
-    const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    const text = await res.text();
+    try {
+      const body = JSON.parse(text);
+      if (typeof body?.code === "string" && typeof body?.message === "string") {
+        throw new ApiError(body.message, res.status, body.code, body.details);
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      // Not JSON; fall through to the raw text
+    }
+    throw new ApiError(text || res.statusText, res.status, "http_error");
   }
 }
 
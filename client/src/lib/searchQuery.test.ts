@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { buildSearchQuery, emptyQueryParts, hasOnlyExclusions, type SearchQueryParts } from "./searchQuery";
+
+describe("buildSearchQuery", () => {
+  it.each<[Partial<SearchQueryParts>, string]>([
+    [{}, ""],
+    [{ allWords: "climate" }, "climate"],
+    [{ allWords: "climate OR weather" }, "climate OR weather"],
+    [
+      { allWords: "climate", exactPhrase: "carbon tax", anyWords: "solar wind", noneWords: "coal" },
+      `climate AND "carbon tax" AND (solar OR wind) NOT coal`,
+    ],
+    [{ allWords: "climate OR weather", anyWords: "solar" }, "(climate OR weather) AND solar"],
+    [{ allWords: "climate OR weather", noneWords: "coal, gas" }, "(climate OR weather) NOT coal NOT gas"],
+    [{ exactPhrase: `"carbon" tax`, noneWords: `"fossil fuel"` }, `"carbon tax" NOT "fossil fuel"`],
+    [{ noneWords: "coal" }, ""],
+  ])("builds %j", (parts, expected) => {
+    expect(buildSearchQuery({ ...emptyQueryParts, ...parts })).toBe(expected);
+  });
+});
+
+describe("hasOnlyExclusions", () => {
+  it("is true only when excluded words are all there is", () => {
+    expect(hasOnlyExclusions({ ...emptyQueryParts, noneWords: "coal" })).toBe(true);
+    expect(hasOnlyExclusions({ ...emptyQueryParts, allWords: "energy", noneWords: "coal" })).toBe(false);
+    expect(hasOnlyExclusions(emptyQueryParts)).toBe(false);
+  });
+});
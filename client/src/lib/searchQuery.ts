@@ -0,0 +1,55 @@
+// The pieces of the advanced search form that make up a query string
+export interface SearchQueryParts {
+  // Free text; may already use AND / OR / NOT, quotes and parentheses
+  allWords: string;
+  exactPhrase: string;
+  anyWords: string;
+  noneWords: string;
+}
+
+export const emptyQueryParts: SearchQueryParts = {
+  allWords: "",
+  exactPhrase: "",
+  anyWords: "",
+  noneWords: "",
+};
+
+// Words separated by spaces or commas, keeping "quoted phrases" whole
+function words(text: string): string[] {
+  return text.match(/"[^"]+"|[^\s,"]+/g) ?? [];
+}
+
+/**
+ * Builds a newsapi.org `q` string, e.g. all "climate", phrase "carbon tax",
+ * any "solar wind" and none "coal" give
+ * `climate AND "carbon tax" AND (solar OR wind) NOT coal`. Excluded words
+ * alone can't be searched for, so those give an empty string (see
+ * hasOnlyExclusions).
+ */
+export function buildSearchQuery(parts: SearchQueryParts): string {
+  const required: string[] = [];
+  const excluded = words(parts.noneWords).map(word => `NOT ${word}`);
+
+  const allWords = parts.allWords.trim();
+  if (allWords) {
+    // Keep an OR the user typed from swallowing the terms and exclusions added after it
+    const hasOtherParts = Boolean(parts.exactPhrase.trim() || parts.anyWords.trim() || excluded.length > 0);
+    required.push(/\bOR\b/.test(allWords) && hasOtherParts ? `(${allWords})` : allWords);
+  }
+
+  const phrase = parts.exactPhrase.replace(/"/g, "").trim();
+  if (phrase) required.push(`"${phrase}"`);
+
+  const anyWords = words(parts.anyWords);
+  if (anyWords.length > 0) {
+    required.push(anyWords.length > 1 ? `(${anyWords.join(" OR ")})` : anyWords[0]);
+  }
+
+  if (required.length === 0) return "";
+  return [required.join(" AND "), ...excluded].join(" ");
+}
+
+// Words to exclude but nothing to search for, which newsapi.org rejects
+export function hasOnlyExclusions(parts: SearchQueryParts): boolean {
+  return words(parts.noneWords).length > 0 && buildSearchQuery(parts) === "";
+}
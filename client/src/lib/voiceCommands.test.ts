@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { describeVoiceCommand, parseVoiceCommand, type VoiceCommand } from "./voiceCommands";
+import { stripSearchPrefix } from "./voiceSearch";
+
+describe("parseVoiceCommand in English", () => {
+  it.each<[string, VoiceCommand]>([
+    // Searches with filters
+    ["show me sports news from Germany", { type: "search", filters: { category: "sports", country: "de" } }],
+    ["positive technology news", { type: "search", filters: { sentiment: "positive", category: "technology" } }],
+    ["Find articles about climate change in the UK", { type: "search", filters: { q: "climate change", country: "gb" } }],
+    ["show me the latest good business news.", { type: "search", filters: { sentiment: "positive", category: "business" } }],
+    ["search for bad news about banks", { type: "search", filters: { sentiment: "negative", q: "banks" } }],
+    ["show me sports", { type: "search", filters: { category: "sports" } }],
+    ["technology", { type: "search", filters: { category: "technology" } }],
+    ["Show me the latest news on SpaceX", { type: "search", filters: { q: "SpaceX" } }],
+    ["news about the election out of the United States", { type: "search", filters: { q: "election", country: "us" } }],
+    // Category and sentiment words outside a filter position stay in the query
+    ["rocket science", { type: "search", filters: { q: "rocket science" } }],
+    ["search for rocket science", { type: "search", filters: { q: "rocket science" } }],
+    ["news about good vaccines", { type: "search", filters: { q: "good vaccines" } }],
+    ["Bad Bunny tour dates", { type: "search", filters: { q: "Bad Bunny tour dates" } }],
+    ["state of the art", { type: "search", filters: { q: "state of the art" } }],
+    // Actions
+    ["summarize the first article", { type: "summarize", position: 0 }],
+    ["Summarise article 3", { type: "summarize", position: 2 }],
+    ["please summarize the 2nd story", { type: "summarize", position: 1 }],
+    ["sum up the last one", { type: "summarize", position: "last" }],
+    ["next page", { type: "nextPage" }],
+    ["Load more articles", { type: "nextPage" }],
+    ["open saved articles", { type: "openSaved" }],
+    ["show my bookmarks", { type: "openSaved" }],
+    ["clear filters", { type: "clearFilters" }],
+    ["Show all news!", { type: "clearFilters" }],
+    // A position that isn't one falls back to a search
+    ["summarize article zero", { type: "search", filters: { q: "summarize article zero" } }],
+  ])("%j", (transcript, expected) => {
+    expect(parseVoiceCommand(transcript, "en-US")).toEqual(expected);
+  });
+
+  it("defaults to English", () => {
+    expect(parseVoiceCommand("next page")).toEqual({ type: "nextPage" });
+  });
+});
+
+describe("parseVoiceCommand in other languages", () => {
+  it.each<[string, string, string]>([
+    ["es-ES", "Busca noticias sobre el clima", "el clima"],
+    ["es-MX", "muéstrame noticias de fútbol", "fútbol"],
+    ["fr-FR", "Recherche élections européennes.", "élections européennes"],
+    ["fr-FR", "montre-moi actualités sur la grève", "la grève"],
+    ["de-DE", "Suche nach Bundesliga", "Bundesliga"],
+    ["de-DE", "zeig mir Nachrichten über Wahlen", "Wahlen"],
+    ["it-IT", "cerca notizie su Roma", "Roma"],
+    ["pt-BR", "pesquisar por eleições", "eleições"],
+    ["pt-PT", "mostra-me notícias sobre futebol", "futebol"],
+    ["zh-CN", "帮我搜索人工智能的新闻", "人工智能"],
+    ["ja-JP", "東京のニュースを検索して", "東京"],
+    ["ko-KR", "날씨 뉴스 검색해줘", "날씨"],
+    // English phrases stand in for languages without their own
+    ["nl-NL", "search for verkiezingen", "verkiezingen"],
+    // Commands are only understood in English; elsewhere they are searched for
+    ["de-DE", "next page", "next page"],
+  ])("%s: %j", (language, transcript, q) => {
+    expect(parseVoiceCommand(transcript, language)).toEqual({ type: "search", filters: { q } });
+  });
+});
+
+describe("stripSearchPrefix", () => {
+  it.each<[string, string, string]>([
+    ["en-US", "show me climate news", "climate news"],
+    ["en-US", "finding nemo", "finding nemo"],
+    ["en-US", "search", "search"],
+    ["es-ES", "busca", "busca"],
+    ["ja-JP", "検索 京都", "京都"],
+  ])("%s: %j", (language, command, expected) => {
+    expect(stripSearchPrefix(command, language)).toBe(expected);
+  });
+});
+
+describe("describeVoiceCommand", () => {
+  it.each<[VoiceCommand, string]>([
+    [{ type: "search", filters: { category: "sports", country: "de", q: "F1" } }, `Sports news from Germany about "F1"`],
+    [{ type: "search", filters: { sentiment: "positive", category: "technology" } }, "Positive technology news"],
+    [{ type: "search", filters: { q: "el clima" } }, `News about "el clima"`],
+    [{ type: "search", filters: { country: "nz" } }, "News from NZ"],
+    [{ type: "summarize", position: 0 }, "Summarize the 1st article"],
+    [{ type: "summarize", position: 11 }, "Summarize the 12th article"],
+    [{ type: "summarize", position: 22 }, "Summarize the 23rd article"],
+    [{ type: "summarize", position: "last" }, "Summarize the last article"],
+    [{ type: "nextPage" }, "Load the next page"],
+    [{ type: "openSaved" }, "Open saved articles"],
+    [{ type: "clearFilters" }, "Clear all filters"],
+  ])("%j", (command, expected) => {
+    expect(describeVoiceCommand(command)).toBe(expected);
+  });
+});
@@ -0,0 +1,245 @@
+import type { SentimentLabel } from "@shared/schema";
+import type { FeedFilters } from "./feedUrl";
+import { stripSearchPrefix } from "./voiceSearch";
+
+// The feed filters a spoken search can set; the rest of the current filters are kept
+export type VoiceSearchFilters = Pick<FeedFilters, "q" | "country" | "category" | "sentiment">;
+
+export type VoiceCommand =
+  | { type: "search"; filters: VoiceSearchFilters }
+  // 0-based position in the feed, or the last article shown
+  | { type: "summarize"; position: number | "last" }
+  | { type: "nextPage" }
+  | { type: "openSaved" }
+  | { type: "clearFilters" };
+
+const COUNTRY_NAMES: Array<[string, string]> = [
+  ["united states", "us"],
+  ["the united states", "us"],
+  ["the us", "us"],
+  ["the usa", "us"],
+  ["usa", "us"],
+  ["america", "us"],
+  ["united kingdom", "gb"],
+  ["the united kingdom", "gb"],
+  ["the uk", "gb"],
+  ["uk", "gb"],
+  ["britain", "gb"],
+  ["great britain", "gb"],
+  ["england", "gb"],
+  ["canada", "ca"],
+  ["australia", "au"],
+  ["germany", "de"],
+  ["france", "fr"],
+  ["japan", "jp"],
+  ["india", "in"],
+];
+
+const CATEGORY_WORDS: Record<string, string> = {
+  business: "business",
+  finance: "business",
+  entertainment: "entertainment",
+  general: "general",
+  health: "health",
+  science: "science",
+  sport: "sports",
+  sports: "sports",
+  tech: "technology",
+  technology: "technology",
+};
+
+const SENTIMENT_WORDS: Record<string, SentimentLabel> = {
+  positive: "positive",
+  good: "positive",
+  uplifting: "positive",
+  happy: "positive",
+  neutral: "neutral",
+  negative: "negative",
+  bad: "negative",
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 0, second: 1, third: 2, fourth: 3, fifth: 4,
+  sixth: 5, seventh: 6, eighth: 7, ninth: 8, tenth: 9,
+  one: 0, two: 1, three: 2, four: 3, five: 4,
+  six: 5, seven: 6, eight: 7, nine: 8, ten: 9,
+};
+
+// Words that frame a search without being part of what is searched for
+const FILLER_WORDS = new Set([
+  "news", "articles", "article", "stories", "story", "headlines", "latest", "recent", "top",
+  "the", "some", "any", "all", "about", "on", "regarding", "for", "me",
+]);
+
+// Category and sentiment words directly before one of these are filters: "positive tech news"
+const NEWS_WORDS = new Set(["news", "articles", "article", "stories", "story", "headlines"]);
+// Words that may sit between a lead-in or filter and the rest: "show me the latest sports news"
+const LEADING_WORDS = new Set(["the", "some", "any", "all", "latest", "recent", "top"]);
+
+const NEXT_PAGE = /^(?:go to |show |load |get )?(?:the )?(?:next page|more(?: articles| news| stories| results)?)$/;
+const OPEN_SAVED = /^(?:open|show|go to|view)?\s*(?:my )?(?:saved(?: articles| stories| news)?|bookmarks|bookmarked articles|reading list)$/;
+const CLEAR_FILTERS = /^(?:clear|reset|remove)(?: all)?(?: the)? filters?$|^show all (?:the )?news$/;
+const SUMMARIZE = /^(?:summari[sz]e|sum up|give me a summary of)\s+(?:the\s+)?(?:(\w+)\s+(?:article|story|one|result)|(?:article|story|result|number)\s+(\w+))$/;
+
+function toPosition(word: string): number | "last" | undefined {
+  if (word === "last") return "last";
+  if (/^\d+$/.test(word)) return Number(word) > 0 ? Number(word) - 1 : undefined;
+  // "1st", "2nd", "3rd", "4th"
+  const numbered = word.match(/^(\d+)(?:st|nd|rd|th)$/);
+  if (numbered) return Number(numbered[1]) > 0 ? Number(numbered[1]) - 1 : undefined;
+  return ORDINALS[word];
+}
+
+function lookup<T>(words: Record<string, T>, word: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(words, word) ? words[word] : undefined;
+}
+
+function isFilterWord(word: string): boolean {
+  return lookup(CATEGORY_WORDS, word) !== undefined || lookup(SENTIMENT_WORDS, word) !== undefined;
+}
+
+/**
+ * Indexes of the words that act as category or sentiment filters rather than
+ * search terms: those right before a news word ("good tech stories"), and
+ * those at the start of a search that followed a lead-in such as "show me"
+ * or that is nothing but filters ("sports"). Elsewhere they are part of the
+ * query, as in "rocket science" or "the good place".
+ */
+function filterPositions(words: string[], afterLeadIn: boolean): Set<number> {
+  const positions = new Set<number>();
+  const isLeading = (word: string) => isFilterWord(word) || LEADING_WORDS.has(word);
+
+  words.forEach((word, index) => {
+    if (!NEWS_WORDS.has(word)) return;
+    for (let i = index - 1; i >= 0 && isLeading(words[i]); i--) {
+      if (isFilterWord(words[i])) positions.add(i);
+    }
+  });
+
+  let end = 0;
+  while (end < words.length && isLeading(words[end])) end++;
+  if (afterLeadIn || end === words.length) {
+    for (let i = 0; i < end; i++) {
+      if (isFilterWord(words[i])) positions.add(i);
+    }
+  }
+
+  return positions;
+}
+
+function parseSearch(text: string, afterLeadIn: boolean): VoiceSearchFilters {
+  let rest = ` ${text.toLowerCase()} `;
+  const filters: VoiceSearchFilters = {};
+
+  // "from Germany", "in the UK"; longest names first so "the uk" wins over "uk"
+  for (const [name, code] of [...COUNTRY_NAMES].sort((a, b) => b[0].length - a[0].length)) {
+    const pattern = new RegExp(`\\s(?:from|in|out of)\\s+${name}\\s`);
+    if (pattern.test(rest)) {
+      filters.country = code;
+      rest = rest.replace(pattern, " ");
+      break;
+    }
+  }
+
+  const words = rest.split(/[\s,]+/).filter(Boolean);
+  const positions = filterPositions(words, afterLeadIn);
+  const remaining: string[] = [];
+  words.forEach((word, index) => {
+    const category = positions.has(index) ? lookup(CATEGORY_WORDS, word) : undefined;
+    const sentiment = positions.has(index) ? lookup(SENTIMENT_WORDS, word) : undefined;
+    if (!filters.category && category) {
+      filters.category = category;
+    } else if (!filters.sentiment && sentiment) {
+      filters.sentiment = sentiment;
+    } else {
+      remaining.push(word);
+    }
+  });
+
+  // Filler only counts as filler at the edges: "news about the election" keeps "election", and "state of the art" stays whole
+  while (remaining.length > 0 && FILLER_WORDS.has(remaining[0])) remaining.shift();
+  while (remaining.length > 0 && FILLER_WORDS.has(remaining[remaining.length - 1])) remaining.pop();
+  if (remaining.length > 0) filters.q = remaining.join(" ");
+
+  return filters;
+}
+
+/**
+ * Maps a spoken utterance to a feed action. Understood (in English):
+ *
+ * - searches with filters: "show me sports news from Germany",
+ *   "positive technology news", "find articles about climate change in the UK"
+ * - "summarize the first article", "summarise article 3", "summarize the last one"
+ * - "next page", "load more"
+ * - "open saved articles", "show my bookmarks"
+ * - "clear filters", "show all news"
+ *
+ * Anything else, and every utterance in other languages, is a plain search
+ * for what was said with the language's lead-in ("busca", ...) removed.
+ */
+export function parseVoiceCommand(transcript: string, language: string = "en-US"): VoiceCommand {
+  const text = transcript.trim().replace(/[.!?]+$/, "").trim();
+  const isEnglish = language.toLowerCase().startsWith("en");
+
+  if (isEnglish) {
+    const lower = text.toLowerCase().replace(/^(?:please\s+|can you\s+|could you\s+)/, "").replace(/\s+please$/, "");
+
+    if (NEXT_PAGE.test(lower)) return { type: "nextPage" };
+    if (OPEN_SAVED.test(lower)) return { type: "openSaved" };
+    if (CLEAR_FILTERS.test(lower)) return { type: "clearFilters" };
+
+    const summarize = lower.match(SUMMARIZE);
+    if (summarize) {
+      const position = toPosition(summarize[1] ?? summarize[2]);
+      if (position !== undefined) return { type: "summarize", position };
+    }
+
+    const query = stripSearchPrefix(lower, language);
+    const filters = parseSearch(query, query !== lower);
+    // Keep the user's own casing for the query itself
+    if (filters.q) {
+      const start = text.toLowerCase().indexOf(filters.q);
+      if (start !== -1) filters.q = text.slice(start, start + filters.q.length);
+    }
+    if (Object.keys(filters).length > 0) return { type: "search", filters };
+  }
+
+  return { type: "search", filters: { q: stripSearchPrefix(text, language) } };
+}
+
+const COUNTRY_LABELS: Record<string, string> = {
+  us: "United States", gb: "United Kingdom", ca: "Canada", au: "Australia",
+  de: "Germany", fr: "France", jp: "Japan", in: "India",
+};
+
+function ordinal(position: number | "last"): string {
+  if (position === "last") return "last";
+  const n = position + 1;
+  const suffix = n % 10 === 1 && n % 100 !== 11 ? "st"
+    : n % 10 === 2 && n % 100 !== 12 ? "nd"
+    : n % 10 === 3 && n % 100 !== 13 ? "rd"
+    : "th";
+  return `${n}${suffix}`;
+}
+
+// A short confirmation of what a command will do, e.g. `Sports news from Germany about "F1"`
+export function describeVoiceCommand(command: VoiceCommand): string {
+  switch (command.type) {
+    case "nextPage":
+      return "Load the next page";
+    case "openSaved":
+      return "Open saved articles";
+    case "clearFilters":
+      return "Clear all filters";
+    case "summarize":
+      return `Summarize the ${ordinal(command.position)} article`;
+    case "search": {
+      const { q, country, category, sentiment } = command.filters;
+      const kind = [sentiment, category].filter(Boolean).join(" ");
+      let description = kind ? `${kind.charAt(0).toUpperCase()}${kind.slice(1)} news` : "News";
+      if (country) description += ` from ${COUNTRY_LABELS[country] ?? country.toUpperCase()}`;
+      if (q) description += ` about "${q}"`;
+      return description;
+    }
+  }
+}
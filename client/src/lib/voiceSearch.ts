@@ -0,0 +1,91 @@
+// Lead-in (and, for verb-final languages, trailing) phrases people wrap around
+// a spoken search, keyed by the language part of a BCP 47 tag such as "es-ES"
+interface SearchPhrases {
+  prefixes: string[];
+  suffixes?: string[];
+  // Languages written without spaces match phrases anywhere, not only at word boundaries
+  unspaced?: boolean;
+}
+
+const SEARCH_PHRASES: Record<string, SearchPhrases> = {
+  en: {
+    prefixes: ["search for", "search", "find me", "find", "show me", "get me", "get", "look for", "look up", "filter by", "filter"],
+  },
+  es: {
+    prefixes: ["busca noticias sobre", "busca noticias de", "buscar", "busca", "encuentra", "muéstrame", "enséñame", "noticias sobre", "noticias de"],
+  },
+  fr: {
+    prefixes: ["recherche", "rechercher", "cherche", "chercher", "trouve", "trouver", "montre-moi", "montre moi", "affiche", "actualités sur", "nouvelles sur"],
+  },
+  de: {
+    prefixes: ["suche nach", "suche", "such nach", "finde", "zeig mir", "zeige mir", "zeige", "nachrichten über", "nachrichten zu"],
+  },
+  it: {
+    prefixes: ["cerca notizie su", "cerca", "trova", "mostrami", "fammi vedere", "notizie su", "notizie di"],
+  },
+  pt: {
+    prefixes: ["pesquisar por", "pesquisar", "pesquisa", "procurar por", "procurar", "procura", "encontra", "mostra-me", "mostre-me", "mostra", "notícias sobre"],
+  },
+  zh: {
+    prefixes: ["帮我搜索", "帮我查找", "搜索", "查找", "查一下", "找一下", "显示", "给我看"],
+    suffixes: ["的新闻", "新闻"],
+    unspaced: true,
+  },
+  ja: {
+    prefixes: ["検索", "探して"],
+    suffixes: ["のニュースを検索して", "のニュースを検索", "を検索して", "を検索", "を探して", "のニュースを見せて", "のニュース", "を見せて"],
+    unspaced: true,
+  },
+  ko: {
+    prefixes: ["검색"],
+    suffixes: ["뉴스 검색해 줘", "뉴스 검색해줘", "검색해 줘", "검색해줘", "뉴스 보여줘", "찾아줘", "검색", "뉴스"],
+  },
+};
+
+function phrasesFor(language: string): SearchPhrases {
+  return SEARCH_PHRASES[language.toLowerCase().split("-")[0]] ?? SEARCH_PHRASES.en;
+}
+
+// Longest first so "search for" wins over "search"
+function byLength(phrases: string[] = []): string[] {
+  return [...phrases].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Turns a spoken command such as "show me climate news" (or "muéstrame
+ * noticias de clima" with language "es-ES") into the search query, by
+ * dropping the lead-in phrase for that language. Falls back to English
+ * phrases for languages without their own list.
+ */
+export function stripSearchPrefix(command: string, language: string): string {
+  const { prefixes, suffixes, unspaced } = phrasesFor(language);
+  // Recognizers often end a final result with a full stop
+  let query = command.trim().replace(/[.。!！?？]+$/, "").trim();
+
+  // Lead-ins can stack, as in "muéstrame noticias de clima"
+  let stripped = true;
+  while (stripped) {
+    stripped = false;
+    const lower = query.toLowerCase();
+    for (const prefix of byLength(prefixes)) {
+      if (!lower.startsWith(prefix)) continue;
+      const rest = query.slice(prefix.length);
+      // "find" must not eat the start of "finding nemo"
+      if (unspaced || rest === "" || /^[\s,:]/.test(rest)) {
+        query = rest.replace(/^[\s,:]+/, "");
+        stripped = query !== "";
+        break;
+      }
+    }
+  }
+
+  const lowerQuery = query.toLowerCase();
+  for (const suffix of byLength(suffixes)) {
+    if (lowerQuery.endsWith(suffix) && lowerQuery.length > suffix.length) {
+      query = query.slice(0, query.length - suffix.length).trim();
+      break;
+    }
+  }
+
+  return query || command.trim();
+}
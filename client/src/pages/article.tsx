@@ -0,0 +1,173 @@
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, AlertTriangle, Bookmark, ExternalLink, FileText, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useBookmarks } from "@/hooks/use-bookmarks";
+import { useToast } from "@/hooks/use-toast";
+import { usePreferences } from "@/hooks/use-preferences";
+import { fetchArticle, summarizeArticle } from "@/lib/newsApi";
+import { cleanArticleText } from "@shared/articleText";
+
+export default function ArticlePage() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { isBookmarked, toggleBookmark } = useBookmarks();
+  const { preferences } = usePreferences();
+
+  const { data: article, isLoading, error } = useQuery({
+    queryKey: ['/api/articles', id],
+    queryFn: () => fetchArticle(id),
+  });
+
+  const summarizeMutation = useMutation({
+    mutationFn: () => summarizeArticle(id, preferences.summaryLength),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['/api/articles', id], data.article);
+      queryClient.invalidateQueries({ queryKey: ['/api/news'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bookmarks'] });
+    },
+    onError: () => {
+      toast({
+        title: "Summary Failed",
+        description: "Unable to generate AI summary. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Back to the feed where the reader came from, with its filters and scroll position
+  const handleBack = () => {
+    if (window.history.length > 1) {
+      window.history.back();
+    } else {
+      setLocation("/");
+    }
+  };
+
+  const source = article?.source;
+  const paragraphs = article?.fullContent
+    ? article.fullContent.split(/\n{2,}/)
+    : [article?.content ? cleanArticleText(article.content) : article?.description].filter((text): text is string => Boolean(text));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 w-full border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4 flex items-center space-x-3">
+          <Button variant="ghost" size="icon" onClick={handleBack} data-testid="button-back">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+            <FileText className="w-4 h-4 text-primary-foreground" />
+          </div>
+          <h1 className="text-xl font-bold text-foreground truncate">{source?.name || "Article"}</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-3xl">
+        {isLoading && (
+          <div className="text-center py-12" data-testid="loading-article">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            <p className="mt-4 text-muted-foreground">Loading article...</p>
+          </div>
+        )}
+
+        {error && (
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="w-16 h-16 mx-auto mb-4 bg-destructive/10 rounded-full flex items-center justify-center">
+                <AlertTriangle className="w-8 h-8 text-destructive" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">Something went wrong</h3>
+              <p className="text-muted-foreground mb-4" data-testid="text-article-error">
+                {error instanceof Error ? error.message : "We couldn't load this article."}
+              </p>
+              <Button onClick={() => setLocation("/")} variant="outline">
+                Browse News
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {article && (
+          <article data-testid={`article-reader-${article.id}`}>
+            <div className="flex items-center gap-2 mb-3 text-sm text-muted-foreground">
+              <Badge variant="secondary">{source?.name || "Unknown Source"}</Badge>
+              {article.author && <span>{article.author}</span>}
+              <span>{new Date(article.publishedAt).toLocaleDateString()}</span>
+            </div>
+
+            <h2 className="text-3xl font-bold leading-tight mb-4" data-testid="text-article-title">
+              {article.title}
+            </h2>
+
+            <div className="flex items-center gap-2 mb-6">
+              <Button variant="outline" size="sm" onClick={() => toggleBookmark(article)} data-testid="button-bookmark-article">
+                <Bookmark className={`w-4 h-4 mr-2 ${isBookmarked(article.id) ? 'fill-current text-primary' : ''}`} />
+                {isBookmarked(article.id) ? "Saved" : "Save"}
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a href={article.url} target="_blank" rel="noopener noreferrer" data-testid="link-original-article">
+                  View Original
+                  <ExternalLink className="w-3 h-3 ml-2" />
+                </a>
+              </Button>
+            </div>
+
+            {article.urlToImage && (
+              <img
+                src={article.urlToImage}
+                alt={article.title}
+                className="w-full max-h-96 object-cover rounded-lg mb-6"
+                onError={(e) => {
+                  (e.target as HTMLImageElement).style.display = 'none';
+                }}
+              />
+            )}
+
+            <Card className="mb-6">
+              <CardContent className="p-4">
+                {article.aiSummary ? (
+                  <div className="space-y-2">
+                    <div className="flex items-center text-sm text-primary">
+                      <Sparkles className="w-4 h-4 mr-1" />
+                      <span>{article.summaryMethod === "extractive" ? "Key Sentences" : "AI Summary"}</span>
+                    </div>
+                    <p className="text-muted-foreground" data-testid="text-article-summary">{article.aiSummary}</p>
+                  </div>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => summarizeMutation.mutate()}
+                    disabled={summarizeMutation.isPending}
+                    data-testid="button-summarize-article"
+                  >
+                    <Sparkles className="w-4 h-4 mr-2" />
+                    {summarizeMutation.isPending ? "Generating..." : "Generate AI Summary"}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            {!article.fullContent && (
+              <div className="flex items-center gap-2 mb-4 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-sm" data-testid="notice-excerpt-only">
+                <AlertTriangle className="w-4 h-4 text-amber-600 shrink-0" />
+                <span>The full text of this article couldn't be loaded, so only an excerpt is shown. Use View Original to read it on the publisher's site.</span>
+              </div>
+            )}
+
+            <div className="space-y-4 text-foreground leading-relaxed" data-testid="text-article-body">
+              {paragraphs.map((paragraph, index) => (
+                <p key={index}>{paragraph}</p>
+              ))}
+            </div>
+          </article>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useLocation } from "wouter";
+import { Newspaper } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+import { insertUserSchema, registerUserSchema, type InsertUser } from "@shared/schema";
+
+function CredentialsForm({
+  mode,
+  onSubmit,
+  isPending,
+}: {
+  mode: "login" | "register";
+  onSubmit: (values: InsertUser) => void;
+  isPending: boolean;
+}) {
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(mode === "register" ? registerUserSchema : insertUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} data-testid={`input-${mode}-username`} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete={mode === "register" ? "new-password" : "current-password"}
+                  {...field}
+                  data-testid={`input-${mode}-password`}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending} data-testid={`button-${mode}`}>
+          {mode === "register"
+            ? (isPending ? "Creating account..." : "Create Account")
+            : (isPending ? "Signing in..." : "Sign In")}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [, setLocation] = useLocation();
+
+  // Already signed in (or just signed in): go back to the feed
+  useEffect(() => {
+    if (user) {
+      setLocation("/");
+    }
+  }, [user, setLocation]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-md" data-testid="card-auth">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Newspaper className="w-5 h-5 text-primary" />
+            NewsAI Account
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Sign in to keep your preferences and saved articles across devices.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                mode="login"
+                onSubmit={(values) => loginMutation.mutate(values)}
+                isPending={loginMutation.isPending}
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                mode="register"
+                onSubmit={(values) => registerMutation.mutate(values)}
+                isPending={registerMutation.isPending}
+              />
+            </TabsContent>
+          </Tabs>
+          <Button variant="link" className="w-full mt-4" onClick={() => setLocation("/")} data-testid="link-continue-anonymous">
+            Continue without an account
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
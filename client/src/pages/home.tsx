@@ -1,62 +1,45 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { AlertTriangle, RotateCcw } from "lucide-react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { AlertTriangle, Loader2, RotateCcw, Sparkles } from "lucide-react";
 import { NewsHeader } from "@/components/news-header";
 import { ArticleCard } from "@/components/article-card";
 import { SettingsModal } from "@/components/settings-modal";
 import { TopicSummary } from "@/components/topic-summary";
+import { PlayBriefingButton, SpeechPlayer } from "@/components/speech-player";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { fetchNews, searchNews } from "@/lib/newsApi";
+import { usePreferences, type UserPreferences } from "@/hooks/use-preferences";
+import { useAutoSummarize } from "@/hooks/use-auto-summarize";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+import { useScrollRestoration } from "@/hooks/use-scroll-restoration";
+import { useToast } from "@/hooks/use-toast";
+import { useFeedUrl } from "@/hooks/use-feed-url";
+import { SpeechProvider } from "@/hooks/use-speech-synthesis";
+import { usesSearch, type FeedFilters } from "@/lib/feedUrl";
 import type { Article } from "@shared/schema";
 
-interface NewsFilters {
-  country?: string;
-  category?: string;
-  sources?: string[];
-  q?: string;
-  pageSize?: number;
-  page?: number;
-}
-
-interface UserPreferences {
-  preferredSources: string[];
-  autoSummarize: boolean;
-  summaryLength: "short" | "medium" | "long";
-  voiceSearchEnabled: boolean;
-  voiceLanguage: string;
-}
+type ArticleSummaryFields = Pick<Article, "aiSummary" | "summaryMethod">;
 
-const DEFAULT_PREFERENCES: UserPreferences = {
-  preferredSources: [],
-  autoSummarize: true,
-  summaryLength: "medium",
-  voiceSearchEnabled: true,
-  voiceLanguage: "en-US",
-};
+const PAGE_SIZE = 20;
+// newsapi.org only pages through the first 100 results, whatever totalResults says
+const MAX_FEED_RESULTS = 100;
 
 export default function Home() {
-  const [filters, setFilters] = useState<NewsFilters>({
-    pageSize: 20,
-    page: 1,
-  });
+  // Filters, page count and topic summary state live in the URL
+  const { view, updateView } = useFeedUrl();
+  const { filters } = view;
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
-  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
-  const [articles, setArticles] = useState<Article[]>([]);
+  const { preferences, updatePreferences } = usePreferences();
+  const { toast } = useToast();
+  // Summaries generated in this view, laid over whatever the feed pages say
+  const [summaries, setSummaries] = useState<Record<string, ArticleSummaryFields>>({});
+  // Article a voice command asked to summarize; its card picks this up
+  const [voiceSummarizeId, setVoiceSummarizeId] = useState<string | null>(null);
 
-  // Load preferences from localStorage
+  // Load theme preference
   useEffect(() => {
-    const savedPreferences = localStorage.getItem('newsai-preferences');
-    if (savedPreferences) {
-      try {
-        setPreferences(JSON.parse(savedPreferences));
-      } catch (error) {
-        console.error('Error loading preferences:', error);
-      }
-    }
-
-    // Load theme preference
     const savedTheme = localStorage.getItem('newsai-theme');
     if (savedTheme === 'dark') {
       setIsDarkMode(true);
@@ -64,33 +47,75 @@ export default function Home() {
     }
   }, []);
 
-  // Apply preferred sources to filters
+  // Fall back to preferred sources unless the search picks its own, and always ask for sentiment so cards can show it
+  // (the server estimates it locally unless the sentiment filter is on, so this doesn't hold up the feed)
   const effectiveFilters = {
     ...filters,
-    sources: preferences.preferredSources.length > 0 ? preferences.preferredSources : filters.sources,
+    sources: filters.sources?.length ? filters.sources : preferences.preferredSources.length > 0 ? preferences.preferredSources : undefined,
+    includeSentiment: true,
+    pageSize: PAGE_SIZE,
   };
 
   const {
     data: newsData,
     isLoading,
+    isFetching,
     error,
     refetch,
-  } = useQuery({
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: ['/api/news', effectiveFilters],
-    queryFn: () => {
-      if (effectiveFilters.q) {
-        return searchNews(effectiveFilters);
+    queryFn: ({ pageParam }) => {
+      const pageFilters = { ...effectiveFilters, page: pageParam };
+      if (usesSearch(pageFilters)) {
+        return searchNews(pageFilters);
       }
-      return fetchNews(effectiveFilters);
+      return fetchNews(pageFilters);
+    },
+    initialPageParam: 1,
+    // Count pages rather than articles: the sentiment filter can leave a page short
+    getNextPageParam: (lastPage, _allPages, lastPageParam) => {
+      const available = Math.min(lastPage.totalResults, MAX_FEED_RESULTS);
+      return lastPageParam * PAGE_SIZE < available ? lastPageParam + 1 : undefined;
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
+  // Pages can overlap when new stories push older ones down between requests
+  const articles = useMemo(() => {
+    const seen = new Set<string>();
+    const merged: Article[] = [];
+    for (const page of newsData?.pages ?? []) {
+      for (const article of page.articles) {
+        if (seen.has(article.id)) continue;
+        seen.add(article.id);
+        merged.push(summaries[article.id] ? { ...article, ...summaries[article.id] } : article);
+      }
+    }
+    return merged;
+  }, [newsData, summaries]);
+
+  const isStale = newsData?.pages.some(page => page.stale) ?? false;
+  const loadedPages = newsData?.pages.length ?? 0;
+
+  // A deep link to page N loads pages up to N; loading more by scrolling moves the URL along
   useEffect(() => {
-    if (newsData?.articles) {
-      setArticles(newsData.articles);
+    if (!newsData || isFetching) return;
+    if (loadedPages < view.page && hasNextPage) {
+      fetchNextPage();
+    } else if (loadedPages !== view.page) {
+      updateView({ page: loadedPages }, { replace: true });
     }
-  }, [newsData]);
+  }, [newsData, isFetching, loadedPages, view.page, hasNextPage, fetchNextPage, updateView]);
+
+  const loadMoreRef = useInfiniteScroll({
+    hasNextPage,
+    isFetchingNextPage,
+    onLoadMore: () => fetchNextPage(),
+  });
+  useScrollRestoration(`feed:${JSON.stringify(effectiveFilters)}`, articles.length > 0 && loadedPages >= view.page);
 
   const handleThemeToggle = () => {
     const newTheme = !isDarkMode;
@@ -105,32 +130,55 @@ export default function Home() {
     }
   };
 
-  const handleFiltersChange = (newFilters: NewsFilters) => {
-    setFilters({ ...newFilters, pageSize: 20, page: 1 });
+  // Each filter change is its own history entry, so Back undoes it
+  const handleFiltersChange = (newFilters: FeedFilters) => {
+    updateView({
+      filters: newFilters,
+      page: 1,
+      summary: view.summary && newFilters.q === filters.q,
+    });
   };
 
   const handlePreferencesChange = (newPreferences: UserPreferences) => {
-    setPreferences(newPreferences);
-    localStorage.setItem('newsai-preferences', JSON.stringify(newPreferences));
+    updatePreferences(newPreferences);
   };
 
-  const handleLoadMore = () => {
-    setFilters(prev => ({
-      ...prev,
-      page: (prev.page || 1) + 1,
-    }));
-  };
+  const handleSummarize = useCallback((articleId: string, summary: string, method: string) => {
+    setSummaries(prev => ({ ...prev, [articleId]: { aiSummary: summary, summaryMethod: method } }));
+  }, []);
 
-  const handleSummarize = (articleId: string, summary: string) => {
-    setArticles(prev => prev.map(article =>
-      article.id === articleId ? { ...article, aiSummary: summary } : article
-    ));
-  };
+  const { job: autoSummaryJob, budgetExhausted } = useAutoSummarize({
+    articles,
+    enabled: preferences.autoSummarize,
+    summaryLength: preferences.summaryLength,
+    onSummary: handleSummarize,
+  });
 
   const handleRefresh = () => {
     refetch();
   };
 
+  const handleNextPage = () => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  };
+
+  // Voice: "summarize the first article". The card runs the summary so its button shows progress
+  const handleSummarizeArticle = (position: number | "last") => {
+    const article = position === "last" ? articles[articles.length - 1] : articles[position];
+    if (!article) {
+      toast({
+        title: "Article Not Found",
+        description: `Only ${articles.length} articles are shown right now.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    document.querySelector(`[data-testid="card-article-${article.id}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    if (!article.aiSummary) setVoiceSummarizeId(article.id);
+  };
+
   if (error) {
     return (
       <div className="min-h-screen bg-background">
@@ -142,6 +190,10 @@ export default function Home() {
           onThemeToggle={handleThemeToggle}
           resultsCount={0}
           onRefresh={handleRefresh}
+          voiceLanguage={preferences.voiceLanguage}
+          voiceSearchEnabled={preferences.voiceSearchEnabled}
+          onNextPage={handleNextPage}
+          onSummarizeArticle={handleSummarizeArticle}
         />
         
         <main className="container mx-auto px-4 py-6">
@@ -173,83 +225,136 @@ export default function Home() {
   }
 
   return (
-    <div className="min-h-screen bg-background">
-      <NewsHeader
-        filters={filters}
-        onFiltersChange={handleFiltersChange}
-        onSettingsClick={() => setSettingsOpen(true)}
-        isDarkMode={isDarkMode}
-        onThemeToggle={handleThemeToggle}
-        isLoading={isLoading}
-        resultsCount={articles.length}
-        onRefresh={handleRefresh}
-      />
+    <SpeechProvider language={preferences.voiceLanguage}>
+      <div className="min-h-screen bg-background">
+        <NewsHeader
+          filters={filters}
+          onFiltersChange={handleFiltersChange}
+          onSettingsClick={() => setSettingsOpen(true)}
+          isDarkMode={isDarkMode}
+          onThemeToggle={handleThemeToggle}
+          isLoading={isLoading}
+          resultsCount={articles.length}
+          onRefresh={handleRefresh}
+          voiceLanguage={preferences.voiceLanguage}
+          voiceSearchEnabled={preferences.voiceSearchEnabled}
+          onNextPage={handleNextPage}
+          onSummarizeArticle={handleSummarizeArticle}
+        />
       
-      <main className="container mx-auto px-4 py-6">
-        {/* Topic Summary - Show when there's a search query */}
-        {effectiveFilters.q && (
-          <TopicSummary topic={effectiveFilters.q} />
-        )}
-
-        {/* Loading State */}
-        {isLoading && (
-          <div className="text-center py-12" data-testid="loading-state">
-            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-            <p className="mt-4 text-muted-foreground">
-              Fetching and summarizing news articles...
-            </p>
-          </div>
-        )}
-
-        {/* Articles Grid */}
-        {!isLoading && articles.length > 0 && (
-          <>
-            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3" data-testid="articles-grid">
-              {articles.map((article) => (
-                <ArticleCard
-                  key={article.id}
-                  article={article}
-                  onSummarize={handleSummarize}
-                />
-              ))}
-            </div>
+        <main className="container mx-auto px-4 py-6">
+          {/* Topic Summary - Show when there's a search query */}
+          {effectiveFilters.q && (
+            <TopicSummary
+              key={effectiveFilters.q}
+              topic={effectiveFilters.q}
+              autoGenerate={view.summary}
+              onGenerate={() => updateView({ summary: true }, { replace: true })}
+            />
+          )}
 
-            {/* Load More Button */}
-            <div className="text-center mt-8">
-              <Button
-                onClick={handleLoadMore}
-                disabled={isLoading}
-                size="lg"
-                data-testid="button-load-more"
-              >
-                Load More Articles
-              </Button>
+          {/* Loading State */}
+          {isLoading && (
+            <div className="text-center py-12" data-testid="loading-state">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              <p className="mt-4 text-muted-foreground">
+                {preferences.autoSummarize ? "Fetching and summarizing news articles..." : "Fetching news articles..."}
+              </p>
             </div>
-          </>
-        )}
+          )}
 
-        {/* Empty State */}
-        {!isLoading && articles.length === 0 && (
-          <Card>
-            <CardContent className="text-center py-12">
-              <h3 className="text-lg font-semibold mb-2">No articles found</h3>
-              <p className="text-muted-foreground mb-4">
-                Try adjusting your filters or search terms to find more articles.
-              </p>
-              <Button onClick={() => handleFiltersChange({})} variant="outline">
-                Clear All Filters
-              </Button>
-            </CardContent>
-          </Card>
-        )}
-      </main>
-
-      <SettingsModal
-        open={settingsOpen}
-        onOpenChange={setSettingsOpen}
-        preferences={preferences}
-        onPreferencesChange={handlePreferencesChange}
-      />
-    </div>
+          {/* Articles Grid - kept while more pages may match, since sentiment filtering can empty a page */}
+          {!isLoading && (articles.length > 0 || hasNextPage) && (
+            <>
+              {/* Stale Results Notice */}
+              {isStale && (
+                <div className="flex items-center gap-2 mb-4 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-sm" data-testid="notice-stale-results">
+                  <AlertTriangle className="w-4 h-4 text-amber-600" />
+                  <span>The news service is busy right now, so these results may be out of date.</span>
+                </div>
+              )}
+
+              {/* Auto-Summarize Progress */}
+              {autoSummaryJob && (
+                <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground" data-testid="auto-summarize-progress">
+                  <Sparkles className="w-4 h-4 text-primary animate-pulse" />
+                  <span>
+                    Summarizing articles: {autoSummaryJob.succeeded + autoSummaryJob.failed} of {autoSummaryJob.total} done
+                  </span>
+                </div>
+              )}
+              {preferences.autoSummarize && budgetExhausted && !autoSummaryJob && (
+                <p className="mb-4 text-sm text-muted-foreground" data-testid="auto-summarize-budget">
+                  Automatic summaries are paused for this session. Use Summarize on an article to summarize it.
+                </p>
+              )}
+
+              <div className="flex justify-end mb-4">
+                <PlayBriefingButton articles={articles} />
+              </div>
+
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3" data-testid="articles-grid">
+                {articles.map((article) => (
+                  <ArticleCard
+                    key={article.id}
+                    article={article}
+                    onSummarize={handleSummarize}
+                    summarizeRequested={voiceSummarizeId === article.id}
+                    onSummarizeRequestHandled={() => setVoiceSummarizeId(null)}
+                  />
+                ))}
+              </div>
+
+              {/* Infinite Scroll: the sentinel loads the next page as it nears the viewport */}
+              <div ref={loadMoreRef} className="text-center mt-8" data-testid="feed-end">
+                {isFetchingNextPage ? (
+                  <div className="flex items-center justify-center gap-2 text-muted-foreground" data-testid="loading-more">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span>Loading more articles...</span>
+                  </div>
+                ) : hasNextPage ? (
+                  <Button
+                    onClick={() => fetchNextPage()}
+                    variant="outline"
+                    size="lg"
+                    data-testid="button-load-more"
+                  >
+                    Load More Articles
+                  </Button>
+                ) : (
+                  <p className="text-sm text-muted-foreground" data-testid="text-end-of-results">
+                    You're all caught up. There are no more articles for these filters.
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Empty State */}
+          {!isLoading && articles.length === 0 && !hasNextPage && (
+            <Card>
+              <CardContent className="text-center py-12">
+                <h3 className="text-lg font-semibold mb-2">No articles found</h3>
+                <p className="text-muted-foreground mb-4">
+                  Try adjusting your filters or search terms to find more articles.
+                </p>
+                <Button onClick={() => handleFiltersChange({})} variant="outline">
+                  Clear All Filters
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </main>
+
+        <SettingsModal
+          open={settingsOpen}
+          onOpenChange={setSettingsOpen}
+          preferences={preferences}
+          onPreferencesChange={handlePreferencesChange}
+        />
+
+        <SpeechPlayer />
+      </div>
+    </SpeechProvider>
   );
 }
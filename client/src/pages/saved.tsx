@@ -0,0 +1,105 @@
+import { useLocation } from "wouter";
+import { ArrowLeft, Bookmark, AlertTriangle } from "lucide-react";
+import { ArticleCard } from "@/components/article-card";
+import { SpeechPlayer } from "@/components/speech-player";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import { useBookmarks } from "@/hooks/use-bookmarks";
+import { usePreferences } from "@/hooks/use-preferences";
+import { SpeechProvider } from "@/hooks/use-speech-synthesis";
+import { queryClient } from "@/lib/queryClient";
+
+export default function Saved() {
+  const [, setLocation] = useLocation();
+  const { user, isLoading: authLoading } = useAuth();
+  const { savedArticles, isLoading, error } = useBookmarks();
+  const { preferences } = usePreferences();
+
+  const handleSummarize = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/bookmarks'] });
+  };
+
+  return (
+    <SpeechProvider language={preferences.voiceLanguage}>
+      <div className="min-h-screen bg-background">
+        <header className="sticky top-0 z-50 w-full border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+          <div className="container mx-auto px-4 py-4 flex items-center space-x-3">
+            <Button variant="ghost" size="icon" onClick={() => setLocation("/")} data-testid="button-back-to-feed">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+              <Bookmark className="w-4 h-4 text-primary-foreground" />
+            </div>
+            <h1 className="text-xl font-bold text-foreground">Saved Articles</h1>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-6">
+          {(authLoading || isLoading) && (
+            <div className="text-center py-12" data-testid="loading-saved">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              <p className="mt-4 text-muted-foreground">Loading your reading list...</p>
+            </div>
+          )}
+
+          {!authLoading && !user && (
+            <Card>
+              <CardContent className="text-center py-12">
+                <h3 className="text-lg font-semibold mb-2">Sign in to see your reading list</h3>
+                <p className="text-muted-foreground mb-4">
+                  Bookmarked articles are saved to your account so you can read them later on any device.
+                </p>
+                <Button onClick={() => setLocation("/auth")} data-testid="button-saved-login">
+                  Sign In
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {user && error && (
+            <Card>
+              <CardContent className="text-center py-12">
+                <div className="w-16 h-16 mx-auto mb-4 bg-destructive/10 rounded-full flex items-center justify-center">
+                  <AlertTriangle className="w-8 h-8 text-destructive" />
+                </div>
+                <h3 className="text-lg font-semibold mb-2">Something went wrong</h3>
+                <p className="text-muted-foreground" data-testid="text-saved-error">
+                  {error instanceof Error ? error.message : "We couldn't load your saved articles."}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {user && !isLoading && !error && savedArticles.length === 0 && (
+            <Card>
+              <CardContent className="text-center py-12">
+                <h3 className="text-lg font-semibold mb-2">No saved articles yet</h3>
+                <p className="text-muted-foreground mb-4">
+                  Use the bookmark button on any article to add it to your reading list.
+                </p>
+                <Button onClick={() => setLocation("/")} variant="outline">
+                  Browse News
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {user && savedArticles.length > 0 && (
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3" data-testid="saved-articles-grid">
+              {savedArticles.map((article) => (
+                <ArticleCard
+                  key={article.id}
+                  article={article}
+                  onSummarize={handleSummarize}
+                />
+              ))}
+            </div>
+          )}
+        </main>
+
+        <SpeechPlayer />
+      </div>
+    </SpeechProvider>
+  );
+}
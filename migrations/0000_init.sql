@@ -0,0 +1,34 @@
+CREATE TABLE "articles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"content" text,
+	"url" text NOT NULL,
+	"url_to_image" text,
+	"published_at" timestamp NOT NULL,
+	"source" jsonb NOT NULL,
+	"author" text,
+	"category" text,
+	"country" text,
+	"ai_summary" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "user_preferences" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"preferred_sources" jsonb DEFAULT '[]'::jsonb,
+	"auto_summarize" boolean DEFAULT true,
+	"summary_length" text DEFAULT 'medium',
+	"voice_search_enabled" boolean DEFAULT true,
+	"voice_language" text DEFAULT 'en-US'
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "user_preferences" ADD CONSTRAINT "user_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
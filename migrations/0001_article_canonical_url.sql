@@ -0,0 +1,2 @@
+ALTER TABLE "articles" ADD COLUMN "canonical_url" text;--> statement-breakpoint
+ALTER TABLE "articles" ADD CONSTRAINT "articles_canonical_url_unique" UNIQUE("canonical_url");
\ No newline at end of file
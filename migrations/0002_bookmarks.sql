@@ -0,0 +1,10 @@
+CREATE TABLE "bookmarks" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"article_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "bookmarks_user_article_unique" UNIQUE("user_id","article_id")
+);
+--> statement-breakpoint
+ALTER TABLE "bookmarks" ADD CONSTRAINT "bookmarks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bookmarks" ADD CONSTRAINT "bookmarks_article_id_articles_id_fk" FOREIGN KEY ("article_id") REFERENCES "public"."articles"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
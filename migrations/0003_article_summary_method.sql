@@ -0,0 +1 @@
+ALTER TABLE "articles" ADD COLUMN "summary_method" text;
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "summary_cache" (
+	"key" varchar(64) PRIMARY KEY NOT NULL,
+	"summary" text NOT NULL,
+	"method" text NOT NULL,
+	"source_links" jsonb,
+	"prompt_version" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,2 @@
+ALTER TABLE "articles" ADD COLUMN "sentiment" text;--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "sentiment_rating" integer;
\ No newline at end of file
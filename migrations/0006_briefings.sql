@@ -0,0 +1,12 @@
+CREATE TABLE "briefings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"script" text NOT NULL,
+	"article_ids" jsonb NOT NULL,
+	"engine" text NOT NULL,
+	"audio_file" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"byte_length" integer NOT NULL,
+	"duration_seconds" integer,
+	"created_at" timestamp DEFAULT now()
+);
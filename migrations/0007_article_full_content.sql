@@ -0,0 +1,2 @@
+ALTER TABLE "articles" ADD COLUMN "full_content" text;--> statement-breakpoint
+ALTER TABLE "articles" ADD COLUMN "full_content_fetched_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,166 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { isUniqueViolation } from "./db";
+import { registerUserSchema, type User as SelectUser, type PublicUser } from "@shared/schema";
+import { asyncHandler, parseRequest, ConflictError, UnauthorizedError } from "./errors";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Rejects anonymous requests with 401 so the client's on401 handling can kick in
+export const requireAuth: RequestHandler = (req, _res, next) => {
+  if (!req.isAuthenticated()) {
+    return next(new UnauthorizedError());
+  }
+  next();
+};
+
+// Usernames are stored trimmed, so lookups must trim too or " alice" could never log in
+function normalizeUsername(username: string): string {
+  return username.trim();
+}
+
+/**
+ * Express "trust proxy" value from TRUST_PROXY: "true"/"false", a hop count,
+ * or a comma-separated list of addresses/subnets. Defaults to one hop, for the
+ * reverse proxy the app is normally deployed behind.
+ */
+function trustProxySetting(value: string | undefined): boolean | number | string {
+  const trimmed = value?.trim();
+  if (!trimmed) return 1;
+  if (trimmed === "true") return true;
+  if (trimmed === "false") return false;
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+export function setupAuth(app: Express) {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret) {
+    console.warn("SESSION_SECRET is not set; using a random secret, sessions will not survive a restart");
+  }
+
+  app.set("trust proxy", trustProxySetting(process.env.TRUST_PROXY));
+  app.use(
+    session({
+      secret: sessionSecret || randomBytes(32).toString("hex"),
+      resave: false,
+      saveUninitialized: false,
+      store: storage.sessionStore,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: "auto",
+        maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(normalizeUsername(username));
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", asyncHandler(async (req, res, next) => {
+    const { username, password } = parseRequest(registerUserSchema, req.body);
+    if (await storage.getUserByUsername(username)) {
+      throw new ConflictError("Username already exists");
+    }
+
+    // The check above can race another registration; the unique constraint settles it
+    let user: SelectUser;
+    try {
+      user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new ConflictError("Username already exists");
+      throw error;
+    }
+
+    req.login(user, (err) => {
+      if (err) return next(err);
+      res.status(201).json(toPublicUser(user));
+    });
+  }));
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return next(new UnauthorizedError("Invalid username or password"));
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.clearCookie("connect.sid");
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+}
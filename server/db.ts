@@ -0,0 +1,58 @@
+import path from "path";
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { asc, eq, isNull } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import { normalizeArticleUrl } from "./utils/url";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Only connect when a database is configured; otherwise the app falls back to MemStorage
+export const pool = process.env.DATABASE_URL
+  ? new pg.Pool({ connectionString: process.env.DATABASE_URL })
+  : undefined;
+
+export const db: Database | undefined = pool ? drizzle(pool, { schema }) : undefined;
+
+// Apply any pending SQL migrations generated by `npm run db:generate`
+export async function runMigrations(database: Database): Promise<void> {
+  await migrate(database, {
+    migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations"),
+  });
+  await backfillCanonicalUrls(database);
+}
+
+// Postgres error code for a unique constraint violation
+export const UNIQUE_VIOLATION = "23505";
+
+export function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === UNIQUE_VIOLATION;
+}
+
+/**
+ * Articles stored before migration 0001 added canonical_url have none, so
+ * they would never be matched by new copies of the same story. The URL
+ * normalization lives in TypeScript rather than SQL, so they are filled in
+ * here. When several old rows normalize to the same URL the oldest keeps it
+ * and the rest stay unmatched.
+ */
+async function backfillCanonicalUrls(database: Database): Promise<void> {
+  const { articles } = schema;
+  const rows = await database
+    .select({ id: articles.id, url: articles.url })
+    .from(articles)
+    .where(isNull(articles.canonicalUrl))
+    .orderBy(asc(articles.createdAt));
+
+  for (const row of rows) {
+    try {
+      await database
+        .update(articles)
+        .set({ canonicalUrl: normalizeArticleUrl(row.url) })
+        .where(eq(articles.id, row.id));
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+    }
+  }
+}
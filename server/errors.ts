@@ -0,0 +1,158 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { ZodError, type ZodType, type ZodTypeDef } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { NewsApiError } from "./services/newsService";
+import { TtsError } from "./services/tts";
+
+// Sent as Retry-After when the upstream API did not say how long to wait
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+// Every API error response has this shape
+export interface ErrorBody {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+/**
+ * An error that knows how it should be reported over HTTP. Routes throw these
+ * and errorHandler turns them into a status code and an ErrorBody; anything
+ * else that reaches the handler is reported as a 500 without its message.
+ */
+export class AppError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 500,
+    readonly code: string = "internal_error",
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toJSON(): ErrorBody {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.details !== undefined ? { details: this.details } : {}),
+    };
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 400, "validation_error", details);
+  }
+
+  static fromZod(error: ZodError): ValidationError {
+    return new ValidationError(
+      fromZodError(error).message,
+      error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message })),
+    );
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Authentication required") {
+    super(message, 401, "unauthorized");
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super(message, 404, "not_found");
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(message, 409, "conflict");
+  }
+}
+
+export class RateLimitedError extends AppError {
+  constructor(
+    message: string,
+    // Seconds the client should wait, sent as Retry-After
+    readonly retryAfter?: number,
+  ) {
+    super(message, 429, "rate_limited", retryAfter !== undefined ? { retryAfter } : undefined);
+  }
+}
+
+// A service we depend on answered with an error
+export class UpstreamError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 502, "upstream_error", details);
+  }
+}
+
+// A service we depend on is not configured or not reachable
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string) {
+    super(message, 503, "service_unavailable");
+  }
+}
+
+// Parse request input, turning a schema mismatch into a 400
+export function parseRequest<T>(schema: ZodType<T, ZodTypeDef, unknown>, data: unknown): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw ValidationError.fromZod(result.error);
+  }
+  return result.data;
+}
+
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  if (error instanceof ZodError) {
+    return ValidationError.fromZod(error);
+  }
+  if (error instanceof NewsApiError) {
+    if (error.isRateLimited) {
+      return new RateLimitedError(
+        "The news service is rate limiting requests. Please try again later.",
+        error.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS,
+      );
+    }
+    return new UpstreamError(error.message, { status: error.status, code: error.code });
+  }
+  if (error instanceof TtsError) {
+    return error.unavailable ? new ServiceUnavailableError(error.message) : new UpstreamError(error.message);
+  }
+  // e.g. body-parser's 400/413 for malformed or oversized bodies
+  if (error instanceof Error && typeof (error as { status?: unknown }).status === "number") {
+    const status = (error as Error & { status: number }).status;
+    if (status >= 400 && status < 500) {
+      return new AppError(error.message, status, "bad_request");
+    }
+  }
+  return new AppError("Internal Server Error");
+}
+
+// Lets async route handlers throw (or reject) instead of catching and responding themselves
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>,
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+export function errorHandler(err: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) {
+    return next(err);
+  }
+
+  const error = toAppError(err);
+  if (error.status >= 500) {
+    console.error(`Error handling ${req.method} ${req.path}:`, err);
+  }
+  if (error instanceof RateLimitedError && error.retryAfter !== undefined) {
+    res.setHeader("Retry-After", String(error.retryAfter));
+  }
+
+  res.status(error.status).json(error.toJSON());
+}
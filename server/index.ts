@@ -1,6 +1,8 @@
-import express, { type Request, Response, NextFunction } from "express";
+import express from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { db, runMigrations } from "./db";
+import { errorHandler, NotFoundError } from "./errors";
 
 const app = express();
 app.use(express.json());
@@ -37,15 +39,18 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  const server = await registerRoutes(app);
+  if (db) {
+    await runMigrations(db);
+    log("database migrations applied");
+  }
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
+  const server = await registerRoutes(app);
 
-    res.status(status).json({ message });
-    throw err;
+  // Unknown API paths get a JSON 404 instead of falling through to the client app
+  app.use("/api", (req, _res, next) => {
+    next(new NotFoundError(`No API route for ${req.method} ${req.originalUrl}`));
   });
+  app.use(errorHandler);
 
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
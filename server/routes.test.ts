@@ -0,0 +1,259 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Route-level tests against recorded fixtures: no network, no API keys, in-memory storage
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  vi.stubEnv("NEWS_PROVIDERS", "fixture");
+  vi.stubEnv("SUMMARIZER", "extractive");
+  vi.stubEnv("SESSION_SECRET", "test-secret");
+  vi.stubEnv("DATABASE_URL", "");
+  vi.stubEnv("GEMINI_API_KEY", "");
+  vi.stubEnv("OPENAI_API_KEY", "");
+
+  // Imported after the environment is set, since providers and storage are picked at load time
+  const { registerRoutes } = await import("./routes");
+  const { errorHandler, NotFoundError } = await import("./errors");
+
+  // Same middleware order as index.ts, without Vite and migrations
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  app.use("/api", (req, _res, next) => next(new NotFoundError(`No API route for ${req.method} ${req.originalUrl}`)));
+  app.use(errorHandler);
+
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  vi.unstubAllEnvs();
+});
+
+function get(path: string, headers: Record<string, string> = {}) {
+  return fetch(baseUrl + path, { headers });
+}
+
+function send(method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+  return fetch(baseUrl + path, {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe("GET /api/news", () => {
+  it("returns US headlines by default, newest first, with stored ids", async () => {
+    const response = await get("/api/news");
+    expect(response.status).toBe(200);
+
+    const body = await response.json();
+    expect(body.status).toBe("ok");
+    expect(body.totalResults).toBe(6);
+    expect(body.articles).toHaveLength(6);
+    expect(body.articles[0]).toMatchObject({
+      title: "Chipmaker unveils low-power AI accelerator for laptops",
+      source: { id: "tech-signal", name: "Tech Signal" },
+      aiSummary: null,
+    });
+    expect(body.articles.every((article: { id: string }) => typeof article.id === "string")).toBe(true);
+  });
+
+  it("filters by country and category", async () => {
+    const body = await (await get("/api/news?country=gb&category=science")).json();
+    expect(body.articles.map((article: { source: { name: string } }) => article.source.name)).toEqual([
+      "BBC News",
+      "Science Weekly UK",
+    ]);
+  });
+
+  it("pages results", async () => {
+    const first = await (await get("/api/news?category=general&pageSize=2&page=1")).json();
+    const second = await (await get("/api/news?category=general&pageSize=2&page=2")).json();
+
+    expect(first.totalResults).toBe(3);
+    expect(first.articles).toHaveLength(2);
+    expect(second.articles).toHaveLength(1);
+    expect(second.articles[0].title).toBe("Postal service tests electric delivery vans on rural routes");
+  });
+
+  it("keeps the same id for an article seen again", async () => {
+    const first = await (await get("/api/news?category=technology")).json();
+    const again = await (await get("/api/news?category=technology")).json();
+    expect(again.articles.map((article: { id: string }) => article.id)).toEqual(
+      first.articles.map((article: { id: string }) => article.id),
+    );
+  });
+
+  it("estimates sentiment for the feed without storing it", async () => {
+    const [article] = (await (await get("/api/news?category=technology&includeSentiment=true")).json()).articles;
+    expect(["positive", "neutral", "negative"]).toContain(article.sentiment);
+
+    const stored = await (await get(`/api/articles/${article.id}`)).json();
+    expect(stored.sentiment).toBeNull();
+  });
+
+  it("adds sentiment on request and filters by it", async () => {
+    const all = await (await get("/api/news?includeSentiment=true")).json();
+    expect(all.articles.every((article: { sentiment: string | null }) =>
+      ["positive", "neutral", "negative"].includes(article.sentiment ?? ""),
+    )).toBe(true);
+
+    const negative = await (await get("/api/news?sentiment=negative")).json();
+    expect(negative.articles.every((article: { sentiment: string }) => article.sentiment === "negative")).toBe(true);
+  });
+
+  it("rejects invalid filters with a validation error", async () => {
+    const response = await get("/api/news?sentiment=bogus");
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "validation_error" });
+  });
+});
+
+describe("GET /api/news/search", () => {
+  it("searches every recording", async () => {
+    const body = await (await get(`/api/news/search?q=${encodeURIComponent("germany OR exoplanet")}`)).json();
+    expect(body.articles.map((article: { title: string }) => article.title)).toEqual([
+      "Astronomers spot water vapour on distant exoplanet",
+      "Germany names young squad for autumn internationals",
+    ]);
+  });
+
+  it("limits the search to the searchIn fields", async () => {
+    const everywhere = await (await get("/api/news/search?q=battery")).json();
+    const titles = await (await get("/api/news/search?q=battery&searchIn=title")).json();
+    expect(everywhere.totalResults).toBeGreaterThan(0);
+    expect(titles.totalResults).toBe(0);
+  });
+
+  it("filters by date range", async () => {
+    const body = await (await get("/api/news/search?from=2025-10-06&to=2025-10-06T12:00:00Z")).json();
+    expect(body.articles.map((article: { title: string }) => article.title)).toEqual([
+      "Heat advisory issued as temperatures climb across the Southwest",
+      "Astronomers spot water vapour on distant exoplanet",
+    ]);
+  });
+});
+
+describe("GET /api/news/sources", () => {
+  it("returns the recorded sources", async () => {
+    const body = await (await get("/api/news/sources")).json();
+    expect(body.sources.map((source: { id: string }) => source.id)).toEqual([
+      "the-daily-ledger",
+      "national-dispatch",
+      "tech-signal",
+      "bbc-news",
+    ]);
+  });
+});
+
+describe("summaries", () => {
+  it("summarizes a stored article and keeps the summary on it", async () => {
+    const [article] = (await (await get("/api/news?country=gb&category=science")).json()).articles;
+
+    const response = await send("POST", `/api/summarize-article/${article.id}`, {});
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.method).toBe("extractive");
+    expect(body.summary.length).toBeGreaterThan(0);
+
+    const again = (await (await get("/api/news?country=gb&category=science")).json()).articles[0];
+    expect(again.aiSummary).toBe(body.summary);
+  });
+
+  it("charges the session budget only for articles queued for new work", async () => {
+    const [summarized, unsummarized] = (await (await get("/api/news?country=gb&category=science")).json()).articles;
+
+    const response = await send("POST", "/api/summarize/jobs", { articleIds: [summarized.id, unsummarized.id, "no-such-article"] });
+    const cookie = response.headers.get("set-cookie")!.split(";")[0];
+    const first = await response.json();
+    expect(first.items.map((item: { articleId: string }) => item.articleId)).toEqual([unsummarized.id]);
+    expect(first.budgetRemaining).toBe(59);
+
+    // The same session asking again for work already done or queued isn't charged twice
+    const again = await (await send("POST", "/api/summarize/jobs", { articleIds: [summarized.id, unsummarized.id] }, { Cookie: cookie })).json();
+    expect(again.items).toEqual([]);
+    expect(again.budgetRemaining).toBe(59);
+
+    // New work keeps drawing on the same session's budget
+    const [other] = (await (await get("/api/news?category=general")).json()).articles;
+    const next = await (await send("POST", "/api/summarize/jobs", { articleIds: [other.id] }, { Cookie: cookie })).json();
+    expect(next.items.map((item: { articleId: string }) => item.articleId)).toEqual([other.id]);
+    expect(next.budgetRemaining).toBe(58);
+  });
+
+  it("answers 404 for an unknown article", async () => {
+    const response = await send("POST", "/api/summarize-article/no-such-article", {});
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ code: "not_found" });
+  });
+
+  it("requires a topic for topic summaries", async () => {
+    const response = await send("POST", "/api/topic-summary", {});
+    expect(response.status).toBe(400);
+  });
+
+  it("summarizes a topic from matching fixture articles", async () => {
+    const response = await send("POST", "/api/topic-summary", { topic: "transit" });
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.sourceLinks.length).toBeGreaterThan(0);
+    expect(body.summary.length).toBeGreaterThan(0);
+  });
+});
+
+describe("accounts and bookmarks", () => {
+  it("requires a session for bookmarks", async () => {
+    const response = await get("/api/bookmarks");
+    expect(response.status).toBe(401);
+  });
+
+  it("trims the username on login like on register", async () => {
+    const register = await send("POST", "/api/auth/register", { username: "  spaced  ", password: "correct horse" });
+    expect(register.status).toBe(201);
+
+    const login = await send("POST", "/api/auth/login", { username: " spaced", password: "correct horse" });
+    expect(login.status).toBe(200);
+    expect(await login.json()).toMatchObject({ username: "spaced" });
+  });
+
+  it("answers 409 to one of two concurrent registrations of a name", async () => {
+    const statuses = await Promise.all([1, 2].map(() =>
+      send("POST", "/api/auth/register", { username: "twins", password: "correct horse" }).then(response => response.status),
+    ));
+    expect(statuses.sort()).toEqual([201, 409]);
+  });
+
+  it("requires a session to create a briefing", async () => {
+    const response = await send("POST", "/api/briefings", {});
+    expect(response.status).toBe(401);
+  });
+
+  it("saves and removes bookmarks for a registered user", async () => {
+    const register = await send("POST", "/api/auth/register", { username: "reader", password: "correct horse" });
+    expect(register.status).toBe(201);
+    const cookie = register.headers.get("set-cookie")!.split(";")[0];
+
+    const [article] = (await (await get("/api/news")).json()).articles;
+    const added = await send("POST", "/api/bookmarks", { articleId: article.id }, { Cookie: cookie });
+    expect(added.status).toBe(201);
+
+    const saved = await (await get("/api/bookmarks", { Cookie: cookie })).json();
+    expect(saved.articles.map((saved: { id: string }) => saved.id)).toEqual([article.id]);
+
+    const removed = await send("DELETE", `/api/bookmarks/${article.id}`, undefined, { Cookie: cookie });
+    expect(removed.status).toBe(204);
+    expect((await (await get("/api/bookmarks", { Cookie: cookie })).json()).articles).toEqual([]);
+  });
+});
+
+it("answers unknown API routes with a JSON 404", async () => {
+  const response = await get("/api/does-not-exist");
+  expect(response.status).toBe(404);
+  expect(await response.json()).toMatchObject({ code: "not_found" });
+});
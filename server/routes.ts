@@ -1,291 +1,503 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
+import path from "path";
 import { storage } from "./storage";
-import { NewsService } from "./services/newsService";
-import { GeminiService } from "./services/openaiService";
-import { newsFiltersSchema, summarizeRequestSchema } from "@shared/schema";
+import { setupAuth, requireAuth } from "./auth";
+import type { NewsProvider } from "./services/newsProvider";
+import { createNewsProvider } from "./services/combinedProvider";
+import { createSummarizer } from "./services/summarizerFactory";
+import { CachingSummarizer } from "./services/summaryCache";
+import { SummaryJobQueue } from "./services/summaryJobs";
+import { BriefingService, buildPodcastFeed, PODCAST_FEED_SIZE } from "./services/briefing";
+import { createTtsEngine } from "./services/tts";
+import { articleText, createArticleExtractor } from "./services/articleExtractor";
+import { toSourceLinks, sentimentLabel } from "./services/summarizer";
+import { analyzeLexiconSentiment } from "./services/sentimentLexicon";
+import { mapWithConcurrency } from "./utils/concurrency";
+import { asyncHandler, parseRequest, ConflictError, NotFoundError, RateLimitedError, ServiceUnavailableError, toAppError } from "./errors";
+import { newsFiltersSchema, summarizeRequestSchema, summaryJobRequestSchema, updateUserPreferencesSchema, insertBookmarkSchema, briefingRequestSchema, type Article, type Briefing, type NewsFilters } from "@shared/schema";
 import { z } from "zod";
 
+// Articles a topic summary is built from; more than a feed page for better analysis
+function topicSearchFilters(topic: string) {
+  return {
+    q: topic,
+    sortBy: "publishedAt" as const,
+    pageSize: 10,
+  };
+}
+
+const summarizeArticleSchema = z.object({
+  summaryLength: z.enum(["short", "medium", "long"]).optional(),
+});
+
+const topicSummaryRequestSchema = z.object({
+  topic: z.string({ required_error: "Topic is required" }).trim().min(1, "Topic is required"),
+});
+
+const SUMMARIZER_UNAVAILABLE = "Summarizer not available. Please check the SUMMARIZER environment variable and its API key.";
+
+// Sentiment calls in flight at once while analyzing a page of articles
+const SENTIMENT_CONCURRENCY = 4;
+
+// Articles one session may queue for background summarization, to cap model cost
+const SUMMARY_SESSION_BUDGET = Number(process.env.SUMMARY_SESSION_BUDGET) || 60;
+
+// Where briefing audio files are written
+const BRIEFINGS_DIR = path.resolve(process.env.BRIEFINGS_DIR || "data/briefings");
+
+// The audio file name stays server-side; clients get a URL to fetch it from
+function toBriefingResponse({ audioFile: _audioFile, ...briefing }: Briefing) {
+  return { ...briefing, audioUrl: `/api/briefings/${briefing.id}/audio` };
+}
+
+// Origin for absolute links in the podcast feed; PUBLIC_URL wins when the app sits behind a proxy that rewrites Host
+function publicBaseUrl(req: Request): string {
+  return (process.env.PUBLIC_URL || `${req.protocol}://${req.get("host")}`).replace(/\/+$/, "");
+}
+
+declare module "express-session" {
+  interface SessionData {
+    summaryJobArticles?: number;
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  let newsService: NewsService;
-  let geminiService: GeminiService;
+  // Sessions and /api/auth/* must be in place before any route reads req.user
+  setupAuth(app);
+
+  let newsProvider: NewsProvider | undefined;
+  let summarizer: CachingSummarizer | undefined;
+  let summaryJobs: SummaryJobQueue | undefined;
+  let briefingService: BriefingService | undefined;
+  const articleExtractor = createArticleExtractor(storage);
+
+  try {
+    newsProvider = createNewsProvider();
+  } catch (error) {
+    console.error("Failed to initialize news provider:", error);
+  }
 
   try {
-    newsService = new NewsService();
-    geminiService = new GeminiService();
+    // One cache shared by article, batch and topic summaries
+    summarizer = new CachingSummarizer(createSummarizer(), storage);
+    summaryJobs = new SummaryJobQueue(summarizer, storage, articleExtractor);
   } catch (error) {
-    console.error("Failed to initialize services:", error);
+    console.error("Failed to initialize summarizer:", error);
   }
 
+  try {
+    briefingService = new BriefingService(storage, createTtsEngine(), BRIEFINGS_DIR);
+  } catch (error) {
+    console.error("Failed to initialize text-to-speech engine:", error);
+  }
+
+  const requireNewsProvider = (): NewsProvider => {
+    if (!newsProvider) {
+      throw new ServiceUnavailableError("News service not available. Please check NEWS_API_KEY or RSS_FEEDS, or set NEWS_PROVIDERS=fixture.");
+    }
+    return newsProvider;
+  };
+
+  const requireSummarizer = (): CachingSummarizer => {
+    if (!summarizer) {
+      throw new ServiceUnavailableError(SUMMARIZER_UNAVAILABLE);
+    }
+    return summarizer;
+  };
+
+  const requireSummaryJobs = (): SummaryJobQueue => {
+    if (!summaryJobs) {
+      throw new ServiceUnavailableError(SUMMARIZER_UNAVAILABLE);
+    }
+    return summaryJobs;
+  };
+
+  const requireBriefingService = (): BriefingService => {
+    if (!briefingService) {
+      throw new ServiceUnavailableError("Text-to-speech not available. Please check the TTS_ENGINE environment variable.");
+    }
+    return briefingService;
+  };
+
+  // Fill in sentiment for articles that have none stored yet, then apply the
+  // sentiment filter. Only the filter asks the summarizer, storing its answer
+  // so each article is analyzed once; `includeSentiment` alone (the feed asks
+  // on every load) gets the local lexicon's estimate, which isn't stored.
+  // The filter narrows the current page only; totalResults still counts every article.
+  const applySentiment = async (articles: Article[], filters: NewsFilters): Promise<Article[]> => {
+    if (!filters.includeSentiment && !filters.sentiment) {
+      return articles;
+    }
+
+    const analyzed = await mapWithConcurrency(articles, SENTIMENT_CONCURRENCY, async (article) => {
+      if (article.sentiment) return article;
+
+      const text = [article.title, article.description].filter(Boolean).join(". ");
+      if (!filters.sentiment || !summarizer) {
+        const { rating } = analyzeLexiconSentiment(text);
+        return { ...article, sentiment: sentimentLabel(rating), sentimentRating: rating };
+      }
+
+      const { rating } = await summarizer.analyzeSentiment(text);
+      return storage.updateArticle(article.id, { sentiment: sentimentLabel(rating), sentimentRating: rating });
+    });
+
+    return filters.sentiment
+      ? analyzed.filter(article => article.sentiment === filters.sentiment)
+      : analyzed;
+  };
+
   // Get news articles with filtering
-  app.get("/api/news", async (req, res) => {
-    try {
-      if (!newsService) {
-        return res.status(500).json({ 
-          message: "News service not available. Please check NEWS_API_KEY environment variable." 
+  app.get("/api/news", asyncHandler(async (req, res) => {
+    const filters = parseRequest(newsFiltersSchema, req.query);
+    const newsResponse = await requireNewsProvider().fetchTopHeadlines(filters);
+    
+    // Convert to our article format and store, reusing the stored article for URLs we have already seen
+    const articles = await Promise.all(
+      newsResponse.articles.map(async (apiArticle) => {
+        const article = await storage.upsertArticle({
+          title: apiArticle.title,
+          description: apiArticle.description,
+          content: apiArticle.content,
+          url: apiArticle.url,
+          urlToImage: apiArticle.urlToImage,
+          publishedAt: new Date(apiArticle.publishedAt),
+          source: apiArticle.source,
+          author: apiArticle.author,
+          category: filters.category || null,
+          country: filters.country || null,
+          aiSummary: null,
         });
-      }
+        return article;
+      })
+    );
 
-      const filters = newsFiltersSchema.parse(req.query);
-      const newsResponse = await newsService.fetchTopHeadlines(filters);
-      
-      // Convert to our article format and store in memory
-      const articles = await Promise.all(
-        newsResponse.articles.map(async (apiArticle) => {
-          const article = await storage.createArticle({
-            title: apiArticle.title,
-            description: apiArticle.description,
-            content: apiArticle.content,
-            url: apiArticle.url,
-            urlToImage: apiArticle.urlToImage,
-            publishedAt: new Date(apiArticle.publishedAt),
-            source: apiArticle.source,
-            author: apiArticle.author,
-            category: filters.category || null,
-            country: filters.country || null,
-            aiSummary: null,
-          });
-          return article;
-        })
-      );
-
-      res.json({
-        status: newsResponse.status,
-        totalResults: newsResponse.totalResults,
-        articles,
-      });
-    } catch (error) {
-      console.error("Error fetching news:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch news articles" 
-      });
-    }
-  });
+    res.json({
+      status: newsResponse.status,
+      totalResults: newsResponse.totalResults,
+      articles: await applySentiment(articles, filters),
+      ...(newsResponse.stale ? { stale: true } : {}),
+    });
+  }));
 
   // Search news articles
-  app.get("/api/news/search", async (req, res) => {
-    try {
-      if (!newsService) {
-        return res.status(500).json({ 
-          message: "News service not available. Please check NEWS_API_KEY environment variable." 
+  app.get("/api/news/search", asyncHandler(async (req, res) => {
+    const filters = parseRequest(newsFiltersSchema, req.query);
+    const newsResponse = await requireNewsProvider().searchEverything(filters);
+    
+    const articles = await Promise.all(
+      newsResponse.articles.map(async (apiArticle) => {
+        const article = await storage.upsertArticle({
+          title: apiArticle.title,
+          description: apiArticle.description,
+          content: apiArticle.content,
+          url: apiArticle.url,
+          urlToImage: apiArticle.urlToImage,
+          publishedAt: new Date(apiArticle.publishedAt),
+          source: apiArticle.source,
+          author: apiArticle.author,
+          category: filters.category || null,
+          country: filters.country || null,
+          aiSummary: null,
         });
-      }
+        return article;
+      })
+    );
 
-      const filters = newsFiltersSchema.parse(req.query);
-      const newsResponse = await newsService.searchEverything(filters);
-      
-      const articles = await Promise.all(
-        newsResponse.articles.map(async (apiArticle) => {
-          const article = await storage.createArticle({
-            title: apiArticle.title,
-            description: apiArticle.description,
-            content: apiArticle.content,
-            url: apiArticle.url,
-            urlToImage: apiArticle.urlToImage,
-            publishedAt: new Date(apiArticle.publishedAt),
-            source: apiArticle.source,
-            author: apiArticle.author,
-            category: filters.category || null,
-            country: filters.country || null,
-            aiSummary: null,
-          });
-          return article;
-        })
-      );
-
-      res.json({
-        status: newsResponse.status,
-        totalResults: newsResponse.totalResults,
-        articles,
-      });
-    } catch (error) {
-      console.error("Error searching news:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to search news articles" 
-      });
-    }
-  });
+    res.json({
+      status: newsResponse.status,
+      totalResults: newsResponse.totalResults,
+      articles: await applySentiment(articles, filters),
+      ...(newsResponse.stale ? { stale: true } : {}),
+    });
+  }));
 
   // Get news sources
-  app.get("/api/news/sources", async (req, res) => {
-    try {
-      if (!newsService) {
-        return res.status(500).json({ 
-          message: "News service not available. Please check NEWS_API_KEY environment variable." 
-        });
-      }
-
-      const { country, category } = req.query;
-      const sources = await newsService.getSources(
-        country as string,
-        category as string
-      );
-      
-      res.json(sources);
-    } catch (error) {
-      console.error("Error fetching sources:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch news sources" 
-      });
-    }
-  });
+  app.get("/api/news/sources", asyncHandler(async (req, res) => {
+    const { country, category } = req.query;
+    const sources = await requireNewsProvider().getSources(
+      country as string,
+      category as string
+    );
+    
+    res.json(sources);
+  }));
 
   // Summarize articles with AI
-  app.post("/api/summarize", async (req, res) => {
-    try {
-      if (!geminiService) {
-        return res.status(500).json({ 
-          message: "Gemini service not available. Please check GEMINI_API_KEY environment variable." 
-        });
-      }
+  app.post("/api/summarize", asyncHandler(async (req, res) => {
+    const request = parseRequest(summarizeRequestSchema, req.body);
+    const results = await requireSummarizer().summarizeArticles(request);
+    
+    res.json({
+      summaries: results.map(result => result.summary),
+      methods: results.map(result => result.method),
+    });
+  }));
 
-      const request = summarizeRequestSchema.parse(req.body);
-      const summaries = await geminiService.summarizeArticles(request);
-      
-      res.json({ summaries });
-    } catch (error) {
-      console.error("Error generating summaries:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to generate AI summaries" 
-      });
+  // A stored article for the reader view, with its full text extracted on first view
+  app.get("/api/articles/:id", asyncHandler(async (req, res) => {
+    const article = await storage.getArticle(req.params.id);
+    if (!article) {
+      throw new NotFoundError("Article not found");
     }
-  });
+    res.json(await articleExtractor.withFullContent(article));
+  }));
 
   // Summarize single article
-  app.post("/api/summarize-article/:id", async (req, res) => {
-    try {
-      if (!geminiService) {
-        return res.status(500).json({ 
-          message: "Gemini service not available. Please check GEMINI_API_KEY environment variable." 
-        });
-      }
+  app.post("/api/summarize-article/:id", asyncHandler(async (req, res) => {
+    const activeSummarizer = requireSummarizer();
+    const { id } = req.params;
+    const { summaryLength } = parseRequest(summarizeArticleSchema, req.body ?? {});
+    
+    // Get article from storage (assuming we stored it when fetching news)
+    const stored = await storage.getArticle(id);
+    
+    if (!stored) {
+      throw new NotFoundError("Article not found");
+    }
 
-      const { id } = req.params;
-      const { summaryLength } = req.body;
-      
-      // Get article from storage (assuming we stored it when fetching news)
-      const articles = await storage.getArticles();
-      const article = articles.find(a => a.id === id);
-      
-      if (!article) {
-        return res.status(404).json({ message: "Article not found" });
-      }
+    // Summarize the whole article when its page can be extracted, not just the provider's excerpt
+    const article = await articleExtractor.withFullContent(stored);
+    const { summary, method } = await activeSummarizer.summarizeArticle(
+      article.title,
+      articleText(article),
+      summaryLength
+    );
 
-      const summary = await geminiService.summarizeArticle(
-        article.title,
-        article.content || article.description || "",
-        summaryLength
-      );
+    // Update article with AI summary
+    const updatedArticle = await storage.updateArticle(id, { aiSummary: summary, summaryMethod: method });
+    
+    res.json({ article: updatedArticle, summary, method });
+  }));
 
-      // Update article with AI summary
-      const updatedArticle = await storage.updateArticle(id, { aiSummary: summary });
-      
-      res.json({ article: updatedArticle, summary });
-    } catch (error) {
-      console.error("Error summarizing article:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to summarize article" 
-      });
+  // Queue a background job that summarizes stored articles and writes the summaries back
+  app.post("/api/summarize/jobs", asyncHandler(async (req, res) => {
+    const jobs = requireSummaryJobs();
+    const request = parseRequest(summaryJobRequestSchema, req.body);
+
+    // Only stored articles that still need a summary and aren't already queued are worth queuing
+    const uniqueIds = Array.from(new Set(request.articleIds));
+    const stored = await Promise.all(uniqueIds.map(id => storage.getArticle(id)));
+    const newIds = uniqueIds.filter((id, index) => stored[index] && !stored[index].aiSummary && !jobs.isQueued(id));
+
+    // Queue what still fits in this session's budget; the rest is left unsummarized
+    const used = req.session.summaryJobArticles ?? 0;
+    const remaining = SUMMARY_SESSION_BUDGET - used;
+    if (remaining <= 0 && newIds.length > 0) {
+      throw new RateLimitedError("Summary budget for this session is used up");
     }
-  });
 
-  // Get user preferences
-  app.get("/api/preferences/:userId", async (req, res) => {
-    try {
-      const { userId } = req.params;
-      const preferences = await storage.getUserPreferences(userId);
-      
-      if (!preferences) {
-        return res.status(404).json({ message: "User preferences not found" });
-      }
-      
-      res.json(preferences);
-    } catch (error) {
-      console.error("Error fetching preferences:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to fetch user preferences" 
-      });
+    const articleIds = newIds.slice(0, Math.max(remaining, 0));
+    req.session.summaryJobArticles = used + articleIds.length;
+
+    const job = jobs.createJob(articleIds, request.summaryLength);
+    res.status(202).json({
+      ...jobs.getProgress(job),
+      budgetRemaining: Math.max(remaining - articleIds.length, 0),
+    });
+  }));
+
+  // Per-article progress of a summary job
+  app.get("/api/summarize/jobs/:id", (req, res) => {
+    const job = summaryJobs?.getJob(req.params.id);
+    if (!summaryJobs || !job) {
+      throw new NotFoundError("Summary job not found");
     }
+
+    res.json(summaryJobs.getProgress(job));
   });
 
+  // Summary cache hit/miss counters
+  app.get("/api/summarize/cache", (_req, res) => {
+    res.json(requireSummarizer().getStats());
+  });
+
+  // Get the logged-in user's preferences
+  app.get("/api/me/preferences", requireAuth, asyncHandler(async (req, res) => {
+    const preferences = await storage.getUserPreferences(req.user!.id);
+    
+    if (!preferences) {
+      throw new NotFoundError("User preferences not found");
+    }
+    
+    res.json(preferences);
+  }));
+
   // Generate topic summary from search results
-  app.post("/api/topic-summary", async (req, res) => {
-    try {
-      if (!newsService || !geminiService) {
-        return res.status(500).json({ 
-          message: "Services not available. Please check API keys." 
-        });
-      }
+  app.post("/api/topic-summary", asyncHandler(async (req, res) => {
+    const provider = requireNewsProvider();
+    const activeSummarizer = requireSummarizer();
+    const { topic } = parseRequest(topicSummaryRequestSchema, req.body ?? {});
 
-      const { topic } = req.body;
-      if (!topic) {
-        return res.status(400).json({ message: "Topic is required" });
-      }
+    // Search for articles about the topic
+    const newsResponse = await provider.searchEverything(topicSearchFilters(topic));
+    
+    if (!newsResponse.articles || newsResponse.articles.length === 0) {
+      throw new NotFoundError(`No recent articles found about "${topic}"`);
+    }
 
-      // Search for articles about the topic
-      const searchFilters = { 
-        q: topic, 
-        sortBy: "publishedAt" as const,
-        pageSize: 10 // Get more articles for better analysis
-      };
-      
-      const newsResponse = await newsService.searchEverything(searchFilters);
-      
-      if (!newsResponse.articles || newsResponse.articles.length === 0) {
-        return res.status(404).json({ 
-          message: `No recent articles found about "${topic}"` 
-        });
-      }
+    // Generate topic summary with source links
+    const topicSummary = await activeSummarizer.generateTopicSummary(
+      topic,
+      newsResponse.articles
+    );
+    
+    res.json({
+      topic,
+      totalArticles: newsResponse.totalResults,
+      articlesAnalyzed: newsResponse.articles.length,
+      summary: topicSummary.summary,
+      segments: topicSummary.segments,
+      sourceLinks: topicSummary.sourceLinks,
+      method: topicSummary.method,
+      lastUpdated: new Date().toISOString()
+    });
+  }));
 
-      // Generate topic summary with source links
-      const topicSummary = await geminiService.generateTopicSummary(
-        topic,
-        newsResponse.articles
-      );
-      
-      res.json({
+  // Stream a topic summary as Server-Sent Events: an "articles" event with the
+  // sources first, "token" events while the summary is generated, then "done"
+  // with the final summary (or "error"). Closing the connection cancels generation.
+  app.get("/api/topic-summary/stream", asyncHandler(async (req, res) => {
+    const provider = requireNewsProvider();
+    const activeSummarizer = requireSummarizer();
+    const { topic } = parseRequest(topicSummaryRequestSchema, req.query);
+
+    // Failures up to here are ordinary JSON errors; once streaming they become "error" events
+    const newsResponse = await provider.searchEverything(topicSearchFilters(topic));
+
+    if (!newsResponse.articles || newsResponse.articles.length === 0) {
+      throw new NotFoundError(`No recent articles found about "${topic}"`);
+    }
+
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        // Stop reverse proxies from buffering the stream
+        "X-Accel-Buffering": "no",
+      });
+
+      send("articles", {
         topic,
         totalArticles: newsResponse.totalResults,
         articlesAnalyzed: newsResponse.articles.length,
+        sourceLinks: toSourceLinks(newsResponse.articles),
+      });
+
+      const topicSummary = await activeSummarizer.generateTopicSummary(topic, newsResponse.articles, {
+        signal: controller.signal,
+        onToken: (text) => send("token", { text }),
+        onReset: () => send("reset", {}),
+      });
+
+      send("done", {
         summary: topicSummary.summary,
+        segments: topicSummary.segments,
         sourceLinks: topicSummary.sourceLinks,
-        lastUpdated: new Date().toISOString()
+        method: topicSummary.method,
+        lastUpdated: new Date().toISOString(),
       });
+      res.end();
     } catch (error) {
-      console.error("Error generating topic summary:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to generate topic summary" 
-      });
+      if (controller.signal.aborted) return;
+
+      const appError = toAppError(error);
+      if (appError.status >= 500) {
+        console.error("Error streaming topic summary:", error);
+      }
+      send("error", appError.toJSON());
+      res.end();
     }
-  });
+  }));
 
-  // Create or update user preferences
-  app.post("/api/preferences", async (req, res) => {
-    try {
-      const preferences = await storage.createUserPreferences(req.body);
-      res.json(preferences);
-    } catch (error) {
-      console.error("Error creating preferences:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to create user preferences" 
-      });
+  // Create or update the logged-in user's preferences
+  app.put("/api/me/preferences", requireAuth, asyncHandler(async (req, res) => {
+    const updates = parseRequest(updateUserPreferencesSchema, req.body);
+
+    const userId = req.user!.id;
+    const existing = await storage.getUserPreferences(userId);
+    const preferences = existing
+      ? await storage.updateUserPreferences(userId, updates)
+      : await storage.createUserPreferences({ ...updates, userId });
+    res.json(preferences);
+  }));
+
+  // List the logged-in user's saved articles, most recently saved first
+  app.get("/api/bookmarks", requireAuth, asyncHandler(async (req, res) => {
+    const articles = await storage.getBookmarkedArticles(req.user!.id);
+    res.json({ articles });
+  }));
+
+  app.post("/api/bookmarks", requireAuth, asyncHandler(async (req, res) => {
+    const { articleId } = parseRequest(insertBookmarkSchema, req.body);
+
+    const article = await storage.getArticle(articleId);
+    if (!article) {
+      throw new NotFoundError("Article not found");
     }
-  });
 
-  app.put("/api/preferences/:userId", async (req, res) => {
-    try {
-      const { userId } = req.params;
-      const updates = req.body;
-      
-      const preferences = await storage.updateUserPreferences(userId, updates);
-      res.json(preferences);
-    } catch (error) {
-      console.error("Error updating preferences:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to update user preferences" 
-      });
+    const bookmark = await storage.addBookmark(req.user!.id, article.id);
+    res.status(201).json(bookmark);
+  }));
+
+  app.delete("/api/bookmarks/:articleId", requireAuth, asyncHandler(async (req, res) => {
+    await storage.removeBookmark(req.user!.id, req.params.articleId);
+    res.sendStatus(204);
+  }));
+
+  // Read the latest summarized articles into an audio briefing. Synthesis runs
+  // in the request, which takes a few seconds with the default espeak engine,
+  // so only signed-in users may start one
+  app.post("/api/briefings", requireAuth, asyncHandler(async (req, res) => {
+    const { articleCount } = parseRequest(briefingRequestSchema, req.body ?? {});
+
+    const briefing = await requireBriefingService().create(articleCount);
+    if (!briefing) {
+      throw new ConflictError("No summarized articles yet. Summarize some articles before creating a briefing.");
     }
-  });
+    res.status(201).json(toBriefingResponse(briefing));
+  }));
+
+  app.get("/api/briefings", asyncHandler(async (_req, res) => {
+    const briefings = await storage.getBriefings(PODCAST_FEED_SIZE);
+    res.json({ briefings: briefings.map(toBriefingResponse) });
+  }));
+
+  // Podcast feed of past briefings; registered before /:id so "feed.xml" isn't taken for an id
+  app.get("/api/briefings/feed.xml", asyncHandler(async (req, res) => {
+    const briefings = await storage.getBriefings(PODCAST_FEED_SIZE);
+    res.type("application/rss+xml").send(buildPodcastFeed(briefings, publicBaseUrl(req)));
+  }));
+
+  app.get("/api/briefings/:id", asyncHandler(async (req, res) => {
+    const briefing = await storage.getBriefing(req.params.id);
+    if (!briefing) {
+      throw new NotFoundError("Briefing not found");
+    }
+    res.json(toBriefingResponse(briefing));
+  }));
+
+  // sendFile handles Range requests, which podcast players use to seek
+  app.get("/api/briefings/:id/audio", asyncHandler(async (req, res, next) => {
+    const briefing = await storage.getBriefing(req.params.id);
+    if (!briefing) {
+      throw new NotFoundError("Briefing not found");
+    }
+    res.type(briefing.mimeType);
+    res.sendFile(requireBriefingService().audioPath(briefing), (error?: NodeJS.ErrnoException) => {
+      if (!error) return;
+      next(error.code === "ENOENT" ? new NotFoundError("Briefing audio not found") : error);
+    });
+  }));
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,253 @@
+import { EventEmitter } from "events";
+import fs from "fs";
+import type { RequestOptions } from "http";
+import { isIP } from "net";
+import path from "path";
+import { Readable } from "stream";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { extractArticleText, fetchArticlePage, fixturePageFetcher } from "./articleExtractor";
+
+const PAGES_DIR = path.resolve(process.cwd(), "fixtures", "pages");
+const NEWS_FIXTURE = path.resolve(process.cwd(), "fixtures", "news", "top-headlines.json");
+
+function readPage(file: string): string {
+  return fs.readFileSync(path.join(PAGES_DIR, file), "utf-8");
+}
+
+function paragraphs(content: string | null): string[] | undefined {
+  return content?.split("\n\n");
+}
+
+// Hostnames the page fetcher may look up; IP literals never reach the lookup
+const HOSTS: Record<string, string[]> = {
+  "news.example.com": ["93.184.216.34"],
+  "localhost": ["127.0.0.1", "::1"],
+  "intranet.example.com": ["10.0.0.7"],
+  "mixed.example.com": ["93.184.216.34", "192.168.1.20"],
+  "nat64.example.com": ["64:ff9b::a00:7"],
+};
+
+const { lookupMock, getMock } = vi.hoisted(() => ({ lookupMock: vi.fn(), getMock: vi.fn() }));
+
+vi.mock("dns", () => ({ lookup: lookupMock }));
+vi.mock("http", () => ({ default: { get: getMock } }));
+vi.mock("https", () => ({ default: { get: getMock } }));
+
+describe("extractArticleText", () => {
+  it("prefers the schema.org articleBody over a paywalled page", () => {
+    const content = paragraphs(extractArticleText(readPage("city-council-transit.html")));
+
+    expect(content).toHaveLength(5);
+    expect(content![0]).toBe(
+      "The city council voted 7-2 on Monday to expand weekend transit service, adding late-night buses on six of the busiest routes. Officials said the pilot will run for a year before a review of ridership numbers.",
+    );
+    expect(content![2]).toContain("“People who keep this city running on weekend nights deserve a way home that doesn’t cost a day’s wages,” she said.");
+    expect(content![4]).toBe("The expanded service begins on the first weekend of next month.");
+    expect(content!.join(" ")).not.toMatch(/Subscribe/);
+  });
+
+  it("keeps the story paragraphs of the <article> and drops page furniture", () => {
+    expect(paragraphs(extractArticleText(readPage("low-power-ai-accelerator.html")))).toEqual([
+      "A major chipmaker on Monday unveiled a low-power AI accelerator aimed at laptops, claiming it can run on-device language models while doubling battery life compared with its previous generation.",
+      "The part, built on a 3-nanometer process, pairs a neural engine rated at 45 trillion operations per second with a dedicated memory controller, so models can stay resident without waking the main CPU cores.",
+      "“Most AI features today are a trade-off between being useful and being on battery,” the company’s head of client computing said at the launch. “We wanted to take that trade-off away.”",
+      "Laptops using the accelerator are expected from at least four manufacturers in the first half of next year. Analysts said pricing would decide whether the chip reaches mainstream machines or stays in premium models.",
+    ]);
+  });
+
+  it("falls back to the <body> and decodes entities", () => {
+    expect(paragraphs(extractArticleText(readPage("exoplanet-water.html")))).toEqual([
+      "Astronomers say they have detected water vapour in the atmosphere of a planet orbiting a star about 110 light-years from Earth, the first such detection for a world in its star's habitable zone.",
+      "The planet, roughly eight times the mass of Earth, was observed as it passed in front of its star. Starlight filtering through the atmosphere carried the signature of water molecules.",
+      "The team cautioned that the planet is probably not Earth-like. It is more likely to be a \"mini-Neptune\" with a thick, hydrogen-rich envelope, and surface conditions remain unknown.",
+      "Further observations with next-generation telescopes should reveal whether other molecules, such as methane or carbon dioxide, are present too.",
+    ]);
+  });
+
+  it("uses <main> over the rest of the <body>", () => {
+    const story = "The harbour reopened to ferries on Tuesday after a week of repairs to the damaged north pier.";
+    const html = `<html><body>
+      <div><p>This sidebar paragraph is long enough to pass as article text but sits outside main.</p></div>
+      <main><p>${story}</p><p>${story.replace("Tuesday", "Wednesday")}</p><p>${story.replace("ferries", "cargo ships")}</p></main>
+    </body></html>`;
+
+    const content = paragraphs(extractArticleText(html));
+    expect(content).toHaveLength(3);
+    expect(content![0]).toBe(story);
+    expect(content!.join(" ")).not.toMatch(/sidebar/);
+  });
+
+  it("returns null when too little text is left to be the article", () => {
+    expect(extractArticleText("<html><body><article><p>Subscribe to keep reading this story today.</p></article></body></html>")).toBeNull();
+    expect(extractArticleText(`<script type="application/ld+json">{"articleBody": "Too short."}</script>`)).toBeNull();
+    expect(extractArticleText("")).toBeNull();
+  });
+});
+
+describe("fixturePageFetcher", () => {
+  it("serves recorded pages and passes other URLs to the fallback", async () => {
+    const fallback = vi.fn(async () => "<p>live</p>");
+    const fetchPage = fixturePageFetcher(PAGES_DIR, fallback);
+
+    await expect(fetchPage("https://bbcnews.example.com/science-environment-exoplanet-water"))
+      .resolves.toBe(readPage("exoplanet-water.html"));
+    expect(fallback).not.toHaveBeenCalled();
+
+    await expect(fetchPage("https://unrecorded.example.com/story")).resolves.toBe("<p>live</p>");
+    expect(fallback).toHaveBeenCalledWith("https://unrecorded.example.com/story");
+  });
+
+  it("fails unrecorded URLs instead of going online by default", async () => {
+    await expect(fixturePageFetcher(PAGES_DIR)("https://unrecorded.example.com/story")).rejects.toThrow(/No recorded page/);
+    expect(getMock).not.toHaveBeenCalled();
+  });
+
+  it("has an extractable page for every fixture article", async () => {
+    const recordings: { response: { articles: { url: string }[] } }[] = JSON.parse(fs.readFileSync(NEWS_FIXTURE, "utf-8"));
+    const urls = new Set(recordings.flatMap(recording => recording.response.articles.map(article => article.url)));
+    const fetchPage = fixturePageFetcher(PAGES_DIR);
+
+    for (const url of Array.from(urls)) {
+      expect(extractArticleText(await fetchPage(url)), url).not.toBeNull();
+    }
+  });
+});
+
+describe("fetchArticlePage", () => {
+  interface Reply {
+    status?: number;
+    headers?: Record<string, string>;
+    body?: string | Readable;
+  }
+  const replies: Reply[] = [];
+  // Addresses sockets were opened to, and the URLs requested over them
+  const connected: string[] = [];
+  const requested: string[] = [];
+
+  function reply(...next: Reply[]) {
+    replies.push(...next);
+  }
+
+  beforeEach(() => {
+    lookupMock.mockImplementation((hostname: string, _options: unknown, callback: (...args: unknown[]) => void) => {
+      const addresses = (HOSTS[hostname] ?? []).map(address => ({ address, family: isIP(address) }));
+      setImmediate(() => addresses.length > 0
+        ? callback(null, addresses)
+        : callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: "ENOTFOUND" })));
+    });
+
+    // Stands in for http(s).get, resolving hostnames through the request's lookup like a socket does
+    getMock.mockImplementation((url: URL, options: RequestOptions, callback: (response: Readable) => void) => {
+      const request = new EventEmitter();
+      const hostname = url.hostname.replace(/^\[|\]$/g, "");
+      const connect = (error: Error | null, address?: string) => {
+        if (error) return request.emit("error", error);
+        connected.push(address!);
+        requested.push(url.href);
+        const { status = 200, headers = { "content-type": "text/html" }, body = "" } = replies.shift() ?? {};
+        callback(Object.assign(typeof body === "string" ? Readable.from([Buffer.from(body)]) : body, { statusCode: status, headers }));
+      };
+
+      setImmediate(() => isIP(hostname)
+        ? connect(null, hostname)
+        : options.lookup!(hostname, { all: true }, (error, addresses) =>
+          connect(error, Array.isArray(addresses) ? addresses[0]?.address : addresses)));
+      return request;
+    });
+  });
+
+  afterEach(() => {
+    lookupMock.mockReset();
+    getMock.mockReset();
+    replies.length = 0;
+    connected.length = 0;
+    requested.length = 0;
+  });
+
+  it("returns the page HTML", async () => {
+    reply({ headers: { "content-type": "text/html; charset=utf-8" }, body: "<p>Story</p>" });
+    await expect(fetchArticlePage("https://news.example.com/story")).resolves.toBe("<p>Story</p>");
+    expect(connected).toEqual(["93.184.216.34"]);
+  });
+
+  it.each([
+    "http://localhost:5000/api/news",
+    "http://127.0.0.1/",
+    "http://intranet.example.com/wiki",
+    "http://mixed.example.com/story",
+    "http://169.254.169.254/latest/meta-data",
+    "http://172.20.0.3/",
+    "http://192.0.0.8/",
+    "http://198.18.0.1/",
+    "http://[::1]/",
+    "http://[fe80::1]/",
+    "http://[fd12::1]/",
+    "http://[::ffff:127.0.0.1]/",
+    "http://[64:ff9b::a00:1]/",
+    "http://nat64.example.com/",
+  ])("refuses %s", async (url) => {
+    await expect(fetchArticlePage(url)).rejects.toThrow(/not a public address/);
+    expect(connected).toEqual([]);
+  });
+
+  it("connects to the address it checked, not a second lookup's answer", async () => {
+    // A rebinding host answers public first and private afterwards
+    lookupMock
+      .mockImplementationOnce((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) =>
+        setImmediate(() => callback(null, [{ address: "93.184.216.34", family: 4 }])))
+      .mockImplementation((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) =>
+        setImmediate(() => callback(null, [{ address: "127.0.0.1", family: 4 }])));
+    reply({ body: "<p>Story</p>" });
+
+    await expect(fetchArticlePage("https://rebind.example.com/story")).resolves.toBe("<p>Story</p>");
+    expect(lookupMock).toHaveBeenCalledTimes(1);
+    expect(connected).toEqual(["93.184.216.34"]);
+  });
+
+  it("refuses URLs that aren't http(s)", async () => {
+    await expect(fetchArticlePage("file:///etc/passwd")).rejects.toThrow(/Not an http\(s\) URL/);
+  });
+
+  it("checks every redirect target", async () => {
+    reply({ status: 302, headers: { location: "http://localhost/admin" } });
+    await expect(fetchArticlePage("https://news.example.com/story")).rejects.toThrow(/localhost is not a public address/);
+    expect(connected).toEqual(["93.184.216.34"]);
+  });
+
+  it("follows redirects to public hosts", async () => {
+    reply({ status: 301, headers: { location: "/2025/story" } }, { body: "<p>Moved</p>" });
+
+    await expect(fetchArticlePage("https://news.example.com/story")).resolves.toBe("<p>Moved</p>");
+    expect(requested).toEqual(["https://news.example.com/story", "https://news.example.com/2025/story"]);
+  });
+
+  it("stops reading a body that outgrows the size limit", async () => {
+    const chunk = Buffer.alloc(1024 * 1024, 0x61);
+    let pulls = 0;
+    const body = new Readable({
+      read() {
+        pulls++;
+        this.push(chunk);
+      },
+    });
+    // No Content-Length, so only the bytes read can give it away
+    reply({ body });
+
+    await expect(fetchArticlePage("https://news.example.com/huge")).rejects.toThrow(/Page too large/);
+    expect(pulls).toBeLessThan(10);
+    expect(body.destroyed).toBe(true);
+  });
+
+  it("rejects a declared Content-Length over the limit without reading", async () => {
+    reply({ headers: { "content-type": "text/html", "content-length": String(50 * 1024 * 1024) }, body: "<p>small</p>" });
+    await expect(fetchArticlePage("https://news.example.com/huge")).rejects.toThrow(/Page too large/);
+  });
+
+  it("rejects error responses and non-HTML pages", async () => {
+    reply({ status: 410, body: "Gone" });
+    await expect(fetchArticlePage("https://news.example.com/gone")).rejects.toThrow(/Page error \(410\)/);
+
+    reply({ headers: { "content-type": "application/pdf" }, body: "%PDF" });
+    await expect(fetchArticlePage("https://news.example.com/report.pdf")).rejects.toThrow(/Not an HTML page/);
+  });
+});
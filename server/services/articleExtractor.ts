@@ -0,0 +1,342 @@
+import { lookup } from "dns";
+import fs from "fs";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import path from "path";
+import type { Article } from "@shared/schema";
+import type { IStorage } from "../storage";
+
+// Fetches the HTML of an article page; throws when the page can't be loaded
+export type PageFetcher = (url: string) => Promise<string>;
+
+type ArticleStore = Pick<IStorage, "updateArticle">;
+
+// Less than this and the "article" is most likely a paywall teaser or an error page
+const MIN_CONTENT_LENGTH = 200;
+// Shorter paragraphs are kept only if they read as a sentence; this drops bylines, captions and buttons
+const MIN_PARAGRAPH_LENGTH = 40;
+const MIN_SENTENCE_LENGTH = 20;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+// A failed extraction is retried after this long, in case the page was only briefly unavailable
+const RETRY_FAILED_AFTER_MS = 6 * 60 * 60 * 1000;
+
+// Resolved from the working directory, like the news fixtures
+export const DEFAULT_PAGE_FIXTURES_DIR = path.resolve(process.cwd(), "fixtures", "pages");
+
+// Page furniture that survives the structural cleanup as paragraph text
+const BOILERPLATE = /^(?:advertisement|share this|read more|related:|sign up|subscribe)|all rights reserved|cookies/i;
+
+// Elements that never hold article text, removed with everything inside them
+const REMOVED_ELEMENTS = ["script", "style", "noscript", "template", "svg", "iframe", "form", "nav", "header", "footer", "aside", "figure"];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+  ndash: "–", mdash: "—", hellip: "…", copy: "©",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, " ").replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function isArticleParagraph(text: string): boolean {
+  if (BOILERPLATE.test(text)) return false;
+  return text.length >= MIN_PARAGRAPH_LENGTH || (text.length >= MIN_SENTENCE_LENGTH && /[.!?]["'”)]?$/.test(text));
+}
+
+function toContent(paragraphs: string[]): string | null {
+  const unique = Array.from(new Set(paragraphs));
+  const content = unique.join("\n\n");
+  return content.length >= MIN_CONTENT_LENGTH ? content : null;
+}
+
+// Publishers that use schema.org markup usually include the whole body as articleBody
+function findArticleBody(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const body = findArticleBody(item);
+      if (body) return body;
+    }
+    return undefined;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if (typeof record.articleBody === "string") return record.articleBody;
+    return findArticleBody(record["@graph"]);
+  }
+  return undefined;
+}
+
+function extractFromJsonLd(html: string): string | null {
+  const scripts = html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+  for (const [, json] of Array.from(scripts)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      continue;
+    }
+    const body = findArticleBody(data);
+    if (!body) continue;
+
+    const content = toContent(
+      body.split(/\n+/).map(paragraph => htmlToText(paragraph)).filter(Boolean),
+    );
+    if (content) return content;
+  }
+  return null;
+}
+
+// The part of the page most likely to be the story: the longest <article>, else <main>, else <body>
+function mainRegion(html: string): string {
+  const articles = Array.from(html.matchAll(/<article\b[^>]*>([\s\S]*?)<\/article>/gi), match => match[1]);
+  if (articles.length > 0) {
+    return articles.reduce((longest, candidate) =>
+      htmlToText(candidate).length > htmlToText(longest).length ? candidate : longest,
+    );
+  }
+  return html.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1]
+    ?? html.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1]
+    ?? html;
+}
+
+/**
+ * Pulls the readable body out of an article page as plain text, one
+ * paragraph per blank-line-separated block. Uses the page's schema.org
+ * articleBody when there is one; otherwise strips scripts, navigation,
+ * asides and figures and keeps the sentence-like paragraphs of the main
+ * region. Returns null when too little text is left to be the article.
+ */
+export function extractArticleText(html: string): string | null {
+  const fromJsonLd = extractFromJsonLd(html);
+  if (fromJsonLd) return fromJsonLd;
+
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, " ");
+  for (const tag of REMOVED_ELEMENTS) {
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, "gi"), " ");
+  }
+
+  const paragraphs = Array.from(
+    mainRegion(cleaned).matchAll(/<(p|blockquote)\b[^>]*>([\s\S]*?)<\/\1>/gi),
+    match => htmlToText(match[2]),
+  ).filter(isArticleParagraph);
+
+  return toContent(paragraphs);
+}
+
+// Loopback, private, link-local and other non-public ranges a page URL must not point at.
+// 64:ff9b::/96 is NAT64, which can reach any IPv4 address, private ones included
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 such as ::ffff:127.0.0.1 is checked as the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  const ip = mapped ?? address;
+  return !BLOCKED_ADDRESSES.check(ip, isIP(ip) === 6 ? "ipv6" : "ipv4");
+}
+
+function notPublic(hostname: string): Error {
+  return new Error(`Refusing to fetch: ${hostname} is not a public address`);
+}
+
+// dns.lookup for the page socket, failing unless every address is public. Checking
+// inside the connection's own lookup means the address vetted is the one connected to
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(notPublic(hostname), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Article URLs come from third-party feeds, so they must not reach the server's own network.
+// Sockets skip the lookup for IP literals, so those are checked here
+function requestPage(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname) && !isPublicAddress(hostname)) {
+    return Promise.reject(notPublic(hostname));
+  }
+
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    client.get(url, {
+      headers: {
+        Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.5",
+        "User-Agent": "Mozilla/5.0 (compatible; NewsAI reader)",
+      },
+      lookup: publicLookup,
+      // No pooled sockets, so every request goes through publicLookup
+      agent: false,
+      signal,
+    }, resolve).on("error", reject);
+  });
+}
+
+// Content-Length can be missing or wrong, so the cap is enforced on the bytes actually read
+async function readLimited(response: http.IncomingMessage, url: string): Promise<string> {
+  if (Number(response.headers["content-length"]) > MAX_PAGE_BYTES) {
+    response.destroy();
+    throw new Error(`Page too large for ${url}`);
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+  // Leaving the loop early destroys the response
+  for await (const chunk of response) {
+    total += chunk.byteLength;
+    if (total > MAX_PAGE_BYTES) {
+      throw new Error(`Page too large for ${url}`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Fetches an article page over http(s). Every hop, redirects included, may
+ * only connect to public addresses, and at most MAX_PAGE_BYTES of HTML is read.
+ */
+export const fetchArticlePage: PageFetcher = async (url) => {
+  let current = new URL(url);
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+
+  for (let redirects = 0; ; redirects++) {
+    if (current.protocol !== "http:" && current.protocol !== "https:") {
+      throw new Error(`Not an http(s) URL: ${current.href}`);
+    }
+
+    const response = await requestPage(current, signal);
+    const status = response.statusCode ?? 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects for ${url}`);
+      }
+      current = new URL(location, current);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      throw new Error(`Page error (${status}) for ${url}`);
+    }
+    const contentType = response.headers["content-type"] ?? "";
+    if (contentType && !contentType.includes("html")) {
+      response.destroy();
+      throw new Error(`Not an HTML page (${contentType}) for ${url}`);
+    }
+    return readLimited(response, url);
+  }
+};
+
+const noRecordedPage: PageFetcher = async (url) => {
+  throw new Error(`No recorded page for ${url}`);
+};
+
+/**
+ * Serves recorded article pages so extraction works offline alongside the
+ * news fixtures. The directory holds a pages.json mapping article URLs to
+ * HTML files next to it; any other URL goes to `fallback`, which by default
+ * fails so that offline runs stay offline.
+ */
+export function fixturePageFetcher(dir: string = DEFAULT_PAGE_FIXTURES_DIR, fallback: PageFetcher = noRecordedPage): PageFetcher {
+  const manifestPath = path.join(dir, "pages.json");
+  const pages: Record<string, string> = fs.existsSync(manifestPath)
+    ? JSON.parse(fs.readFileSync(manifestPath, "utf-8"))
+    : {};
+
+  return async (url) => {
+    const file = pages[url];
+    return file ? fs.promises.readFile(path.join(dir, file), "utf-8") : fallback(url);
+  };
+}
+
+/**
+ * Fills in Article.fullContent on demand and stores it, so each page is
+ * fetched once; concurrent requests for the same article share one fetch.
+ * Failures are logged and leave fullContent null, and callers fall back to
+ * the provider's excerpt (see articleText).
+ */
+export class ArticleExtractor {
+  private inFlight = new Map<string, Promise<Article>>();
+
+  constructor(
+    private store: ArticleStore,
+    private fetchPage: PageFetcher = fetchArticlePage,
+  ) {}
+
+  async withFullContent(article: Article): Promise<Article> {
+    if (article.fullContent) return article;
+    if (article.fullContentFetchedAt && Date.now() - new Date(article.fullContentFetchedAt).getTime() < RETRY_FAILED_AFTER_MS) {
+      return article;
+    }
+
+    let pending = this.inFlight.get(article.id);
+    if (!pending) {
+      pending = this.extract(article).finally(() => this.inFlight.delete(article.id));
+      this.inFlight.set(article.id, pending);
+    }
+    return pending;
+  }
+
+  private async extract(article: Article): Promise<Article> {
+    let fullContent: string | null = null;
+    try {
+      fullContent = extractArticleText(await this.fetchPage(article.url));
+    } catch (error) {
+      console.error(`Failed to extract article ${article.id} from ${article.url}:`, error instanceof Error ? error.message : error);
+    }
+    return this.store.updateArticle(article.id, { fullContent, fullContentFetchedAt: new Date() });
+  }
+}
+
+// The best text available to summarize or read: the extracted body, then the provider's excerpt
+export function articleText(article: Article): string {
+  return article.fullContent || article.content || article.description || "";
+}
+
+/**
+ * Build the extractor for this environment. With the fixture news provider
+ * in NEWS_PROVIDERS, pages recorded under PAGE_FIXTURES_DIR (default
+ * ./fixtures/pages) are served from disk instead of fetched. Other pages are
+ * only fetched live when a live provider is configured alongside it.
+ */
+export function createArticleExtractor(store: ArticleStore): ArticleExtractor {
+  const providers = (process.env.NEWS_PROVIDERS ?? "").split(",").map(name => name.trim().toLowerCase()).filter(Boolean);
+  const offline = providers.every(name => name === "fixture");
+  const fetchPage = providers.includes("fixture")
+    ? fixturePageFetcher(process.env.PAGE_FIXTURES_DIR || undefined, offline ? noRecordedPage : fetchArticlePage)
+    : fetchArticlePage;
+  return new ArticleExtractor(store, fetchPage);
+}
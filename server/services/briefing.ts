@@ -0,0 +1,138 @@
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { XMLBuilder } from "fast-xml-parser";
+import type { Article, Briefing } from "@shared/schema";
+import type { IStorage } from "../storage";
+import type { TtsEngine } from "./tts";
+
+// Stories read when the request doesn't say how many
+export const DEFAULT_BRIEFING_ARTICLES = 5;
+// Episodes listed in the podcast feed
+export const PODCAST_FEED_SIZE = 30;
+
+const PODCAST_TITLE = "NewsAI Briefing";
+const PODCAST_DESCRIPTION = "The latest AI-summarized headlines, read aloud.";
+
+function formatBriefingDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+}
+
+// Headlines and summaries don't always end with punctuation, which makes the TTS run sentences together
+function asSentence(text: string): string {
+  const trimmed = text.trim();
+  return /[.!?]["')\]]?$/.test(trimmed) ? trimmed : `${trimmed}.`;
+}
+
+/**
+ * The text read in a briefing: an intro, then each article's headline,
+ * source and summary, then a sign-off. Paragraphs are separated by blank
+ * lines so engines with an input limit can split between them.
+ */
+export function buildBriefingScript(articles: Article[], date: Date): string {
+  const intro = `Your news briefing for ${formatBriefingDate(date)}. ` +
+    (articles.length === 1 ? "Here is the top story." : `Here are the top ${articles.length} stories.`);
+
+  const stories = articles.map((article, index) => {
+    const sourceName = article.source.name;
+    const lead = sourceName ? `Story ${index + 1}, from ${sourceName}.` : `Story ${index + 1}.`;
+    return [lead, asSentence(article.title), asSentence(article.aiSummary ?? "")].join(" ");
+  });
+
+  return [intro, ...stories, "That's your briefing. Thanks for listening."].join("\n\n");
+}
+
+/**
+ * Turns the latest summarized articles into an audio briefing: the script is
+ * read by the configured TTS engine, the audio is written to `audioDir` and
+ * the briefing's details are stored so it can be listed and served later.
+ */
+export class BriefingService {
+  constructor(
+    private storage: IStorage,
+    private engine: TtsEngine,
+    private audioDir: string,
+  ) {}
+
+  // Undefined when no article has been summarized yet
+  async create(articleCount = DEFAULT_BRIEFING_ARTICLES): Promise<Briefing | undefined> {
+    const articles = await this.storage.getSummarizedArticles(articleCount);
+    if (articles.length === 0) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const script = buildBriefingScript(articles, now);
+    const { audio, mimeType, extension, durationSeconds } = await this.engine.synthesize(script);
+
+    const audioFile = `${randomUUID()}.${extension}`;
+    await mkdir(this.audioDir, { recursive: true });
+    await writeFile(path.join(this.audioDir, audioFile), audio);
+
+    return this.storage.createBriefing({
+      title: `News Briefing: ${formatBriefingDate(now)}, ${now.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}`,
+      script,
+      articleIds: articles.map(article => article.id),
+      engine: this.engine.name,
+      audioFile,
+      mimeType,
+      byteLength: audio.length,
+      durationSeconds,
+    });
+  }
+
+  audioPath(briefing: Briefing): string {
+    return path.join(this.audioDir, briefing.audioFile);
+  }
+}
+
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  format: true,
+  suppressEmptyNode: true,
+});
+
+/**
+ * A podcast-style RSS 2.0 feed of past briefings, one episode per briefing
+ * with its audio as the enclosure. `baseUrl` is the public origin the audio
+ * URLs are built from, since podcast apps need absolute links.
+ */
+export function buildPodcastFeed(briefings: Briefing[], baseUrl: string): string {
+  const items = briefings.map(briefing => ({
+    title: briefing.title,
+    description: briefing.script,
+    guid: { "#text": briefing.id, "@_isPermaLink": "false" },
+    pubDate: (briefing.createdAt ?? new Date()).toUTCString(),
+    enclosure: {
+      "@_url": `${baseUrl}/api/briefings/${briefing.id}/audio`,
+      "@_length": String(briefing.byteLength),
+      "@_type": briefing.mimeType,
+    },
+    ...(briefing.durationSeconds !== null ? { "itunes:duration": briefing.durationSeconds } : {}),
+  }));
+
+  return builder.build({
+    "?xml": { "@_version": "1.0", "@_encoding": "UTF-8" },
+    rss: {
+      "@_version": "2.0",
+      "@_xmlns:itunes": "http://www.itunes.com/dtds/podcast-1.0.dtd",
+      "@_xmlns:atom": "http://www.w3.org/2005/Atom",
+      channel: {
+        title: PODCAST_TITLE,
+        link: baseUrl,
+        description: PODCAST_DESCRIPTION,
+        language: "en",
+        "atom:link": {
+          "@_href": `${baseUrl}/api/briefings/feed.xml`,
+          "@_rel": "self",
+          "@_type": "application/rss+xml",
+        },
+        "itunes:author": "NewsAI",
+        "itunes:explicit": "false",
+        "itunes:category": { "@_text": "News" },
+        item: items,
+      },
+    },
+  });
+}
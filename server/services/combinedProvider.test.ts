@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { NewsFilters } from "@shared/schema";
+import { CombinedNewsProvider } from "./combinedProvider";
+import type { NewsAPIArticle, NewsProvider } from "./newsProvider";
+
+// A provider with `count` articles, one an hour apart, paged like newsapi.org (at most 100 per page)
+function fakeProvider(name: string, count: number, offsetMinutes = 0): NewsProvider {
+  const start = Date.parse("2025-10-06T12:00:00Z") - offsetMinutes * 60_000;
+  const articles: NewsAPIArticle[] = Array.from({ length: count }, (_, index) => ({
+    source: { id: name, name },
+    author: null,
+    title: `${name} ${index}`,
+    description: null,
+    url: `https://${name}.example.com/${index}`,
+    urlToImage: null,
+    publishedAt: new Date(start - index * 3_600_000).toISOString(),
+    content: null,
+  }));
+
+  const page = async ({ page = 1, pageSize = 20 }: NewsFilters = {}) => {
+    const size = Math.min(pageSize, 100);
+    return { status: "ok", totalResults: count, articles: articles.slice((page - 1) * size, page * size) };
+  };
+  return { name, fetchTopHeadlines: page, searchEverything: page, getSources: async () => ({ sources: [] }) };
+}
+
+describe("CombinedNewsProvider", () => {
+  it("interleaves providers newest first", async () => {
+    const combined = new CombinedNewsProvider([fakeProvider("a", 3), fakeProvider("b", 3, 30)]);
+    const response = await combined.fetchTopHeadlines();
+
+    expect(response.articles.map(article => article.title)).toEqual(["a 0", "b 0", "a 1", "b 1", "a 2", "b 2"]);
+    expect(response.totalResults).toBe(6);
+  });
+
+  it("counts merged duplicates once when every provider is exhausted", async () => {
+    const combined = new CombinedNewsProvider([fakeProvider("a", 4), fakeProvider("a", 2)]);
+    expect((await combined.fetchTopHeadlines()).totalResults).toBe(4);
+  });
+
+  it("caps totalResults at what the merge window can serve", async () => {
+    const combined = new CombinedNewsProvider([fakeProvider("a", 500), fakeProvider("b", 500, 30)]);
+
+    const first = await combined.fetchTopHeadlines({ page: 1, pageSize: 20 });
+    expect(first.totalResults).toBe(100);
+
+    const last = await combined.fetchTopHeadlines({ page: 5, pageSize: 20 });
+    expect(last.articles).toHaveLength(20);
+    expect(last.totalResults).toBe(100);
+
+    const beyond = await combined.fetchTopHeadlines({ page: 6, pageSize: 20 });
+    expect(beyond.articles).toEqual([]);
+    expect(beyond.totalResults).toBe(100);
+  });
+});
@@ -0,0 +1,142 @@
+import { type NewsFilters } from "@shared/schema";
+import type { NewsProvider, NewsAPIArticle, NewsAPIResponse, NewsAPISourcesResponse } from "./newsProvider";
+import { NewsService } from "./newsService";
+import { CachingNewsProvider } from "./newsCache";
+import { RssFeedProvider, parseFeedList } from "./rssProvider";
+import { FixtureNewsProvider } from "./fixtureProvider";
+import { normalizeArticleUrl } from "../utils/url";
+
+const DEFAULT_PAGE_SIZE = 20;
+// newsapi.org rejects larger pages
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Merges several providers into one feed, newest first. Each provider is
+ * asked for everything up to the end of the requested page so the merged
+ * page is cut from a consistently ordered list. Providers serve at most
+ * MAX_PAGE_SIZE articles that way, so unless they returned everything they
+ * have, the merged feed (and its totalResults) stops there.
+ */
+export class CombinedNewsProvider implements NewsProvider {
+  readonly name: string;
+
+  constructor(private providers: NewsProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('CombinedNewsProvider requires at least one provider');
+    }
+    this.name = providers.map(provider => provider.name).join('+');
+  }
+
+  private async merge(
+    filters: NewsFilters,
+    fetchPage: (provider: NewsProvider, filters: NewsFilters) => Promise<NewsAPIResponse>,
+  ): Promise<NewsAPIResponse> {
+    const pageSize = filters.pageSize ?? DEFAULT_PAGE_SIZE;
+    const page = filters.page ?? 1;
+    const window = Math.min(page * pageSize, MAX_PAGE_SIZE);
+
+    const results = await Promise.allSettled(
+      this.providers.map(provider => fetchPage(provider, { ...filters, page: 1, pageSize: window })),
+    );
+
+    const seen = new Set<string>();
+    const articles: NewsAPIArticle[] = [];
+    let totalResults = 0;
+    let failures = 0;
+    let stale = false;
+    // Whether every provider that answered returned all of its results
+    let complete = true;
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        failures++;
+        console.error(`News provider "${this.providers[index].name}" failed:`, result.reason);
+        return;
+      }
+      totalResults += result.value.totalResults;
+      stale ||= result.value.stale === true;
+      complete &&= result.value.articles.length >= result.value.totalResults;
+      for (const article of result.value.articles) {
+        const key = normalizeArticleUrl(article.url);
+        if (!seen.has(key)) {
+          seen.add(key);
+          articles.push(article);
+        }
+      }
+    });
+
+    if (failures === this.providers.length) {
+      const firstError = (results[0] as PromiseRejectedResult).reason;
+      throw firstError instanceof Error ? firstError : new Error('All news providers failed');
+    }
+
+    articles.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+    // Past the first MAX_PAGE_SIZE, a provider's unfetched articles could belong in between
+    const servable = complete ? articles : articles.slice(0, MAX_PAGE_SIZE);
+    const start = (page - 1) * pageSize;
+
+    return {
+      status: "ok",
+      // Once the window is full size the merged list is all there will ever be
+      totalResults: complete
+        ? servable.length
+        : Math.min(totalResults, window === MAX_PAGE_SIZE ? servable.length : MAX_PAGE_SIZE),
+      articles: servable.slice(start, start + pageSize),
+      ...(stale ? { stale } : {}),
+    };
+  }
+
+  fetchTopHeadlines(filters: NewsFilters = {}): Promise<NewsAPIResponse> {
+    return this.merge(filters, (provider, f) => provider.fetchTopHeadlines(f));
+  }
+
+  searchEverything(filters: NewsFilters = {}): Promise<NewsAPIResponse> {
+    return this.merge(filters, (provider, f) => provider.searchEverything(f));
+  }
+
+  async getSources(country?: string, category?: string): Promise<NewsAPISourcesResponse> {
+    const results = await Promise.allSettled(
+      this.providers.map(provider => provider.getSources(country, category)),
+    );
+    const sources = results.flatMap(result => (result.status === "fulfilled" ? result.value.sources : []));
+    const stale = results.some(result => result.status === "fulfilled" && result.value.stale);
+    return { sources, ...(stale ? { stale } : {}) };
+  }
+}
+
+/**
+ * Build the provider configured by the environment. NEWS_PROVIDERS is a
+ * comma-separated list of "newsapi", "rss" and "fixture"; when unset, every
+ * provider with configuration present (NEWS_API_KEY, RSS_FEEDS) is used.
+ * "fixture" serves recorded responses from NEWS_FIXTURES_DIR (default
+ * ./fixtures/news) for offline development and tests.
+ */
+export function createNewsProvider(): NewsProvider {
+  const hasNewsApiKey = Boolean(process.env.NEWS_API_KEY || process.env.NEWSAPI_KEY);
+  const configured = process.env.NEWS_PROVIDERS
+    ? process.env.NEWS_PROVIDERS.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+    : [
+        ...(hasNewsApiKey ? ['newsapi'] : []),
+        ...(process.env.RSS_FEEDS ? ['rss'] : []),
+      ];
+
+  const providers = configured.map((name): NewsProvider => {
+    switch (name) {
+      case 'newsapi':
+        // newsapi.org has a small daily quota, so its answers are cached and shared across clients
+        return new CachingNewsProvider(new NewsService());
+      case 'rss':
+        return new RssFeedProvider(parseFeedList(process.env.RSS_FEEDS || ''));
+      case 'fixture':
+        return new FixtureNewsProvider(process.env.NEWS_FIXTURES_DIR || undefined);
+      default:
+        throw new Error(`Unknown news provider "${name}" in NEWS_PROVIDERS`);
+    }
+  });
+
+  if (providers.length === 0) {
+    throw new Error('No news provider configured. Set NEWS_API_KEY and/or RSS_FEEDS, or NEWS_PROVIDERS=fixture to run offline');
+  }
+
+  return providers.length === 1 ? providers[0] : new CombinedNewsProvider(providers);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { ExtractiveSummarizer, FallbackSummarizer } from "./extractiveSummarizer";
+import type { Summarizer, TopicSummaryOptions } from "./summarizer";
+
+const articles = [{
+  title: "City council approves expanded weekend transit service",
+  content: null,
+  description: "The new schedule adds late-night buses on six routes starting next month.",
+  url: "https://thedailyledger.example.com/2025/10/06/city-council-transit",
+  source: { id: "the-daily-ledger", name: "The Daily Ledger" },
+}];
+
+// A model that streams part of a topic summary and then fails
+function failingModel(tokens: string[]): Summarizer {
+  const model = new ExtractiveSummarizer();
+  return Object.assign(Object.create(model), {
+    name: "flaky",
+    model: "flaky-1",
+    async generateTopicSummary(_topic: string, _articles: unknown[], options: TopicSummaryOptions = {}) {
+      for (const token of tokens) options.onToken?.(token);
+      throw new Error("connection reset");
+    },
+  });
+}
+
+describe("FallbackSummarizer.generateTopicSummary", () => {
+  it("resets the streamed text before the extractive summary replaces a failed stream", async () => {
+    const events: string[] = [];
+    const result = await new FallbackSummarizer(failingModel(["The council ", "voted"])).generateTopicSummary("transit", articles, {
+      onToken: (text) => events.push(text),
+      onReset: () => events.push("<reset>"),
+    });
+
+    expect(result.method).toBe("extractive");
+    expect(events).toEqual(["The council ", "voted", "<reset>", expect.stringContaining("Key points")]);
+  });
+
+  it("doesn't reset when nothing was streamed yet", async () => {
+    const events: string[] = [];
+    await new FallbackSummarizer(failingModel([])).generateTopicSummary("transit", articles, {
+      onToken: (text) => events.push(text),
+      onReset: () => events.push("<reset>"),
+    });
+
+    expect(events).not.toContain("<reset>");
+  });
+});
@@ -0,0 +1,219 @@
+import { type SummarizeRequest } from "@shared/schema";
+import { cleanArticleText } from "@shared/articleText";
+import {
+  type Summarizer,
+  type SummaryLength,
+  type ArticleSummary,
+  type SentimentResult,
+  type TopicArticle,
+  type TopicSummaryResult,
+  type TopicSummaryOptions,
+  toTopicSummaryResult,
+} from "./summarizer";
+import { analyzeLexiconSentiment } from "./sentimentLexicon";
+
+// Upper end of the sentence counts the LLM prompts ask for
+export const SENTENCES_PER_LENGTH: Record<SummaryLength, number> = {
+  short: 2,
+  medium: 4,
+  long: 6,
+};
+
+const TOPIC_SUMMARY_POINTS = 5;
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 50;
+const CONVERGENCE = 1e-4;
+
+const STOPWORDS = new Set([
+  "a", "about", "after", "all", "also", "an", "and", "any", "are", "as", "at", "be", "been",
+  "but", "by", "can", "could", "did", "do", "does", "for", "from", "had", "has", "have", "he",
+  "her", "his", "how", "i", "if", "in", "into", "is", "it", "its", "just", "more", "most", "not",
+  "of", "on", "one", "or", "our", "out", "over", "said", "says", "she", "so", "than", "that",
+  "the", "their", "them", "then", "there", "these", "they", "this", "to", "two", "up", "was",
+  "we", "were", "what", "when", "which", "who", "will", "with", "would", "you",
+]);
+
+export function splitSentences(text: string): string[] {
+  return cleanArticleText(text)
+    .split(/(?<=[.!?])\s+(?=["'“‘(]?[A-Z0-9])/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+function tokenize(sentence: string): string[] {
+  return (sentence.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) ?? [])
+    .filter(word => word.length > 2 && !STOPWORDS.has(word));
+}
+
+// Word overlap normalised by sentence length, as in the original TextRank paper
+function similarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const wordsB = new Set(b);
+  const overlap = new Set(a.filter(word => wordsB.has(word))).size;
+  if (overlap === 0) return 0;
+  return overlap / (Math.log(a.length + 1) + Math.log(b.length + 1));
+}
+
+/**
+ * Rank sentences with TextRank: build a graph weighted by sentence
+ * similarity and run PageRank over it. Returns one score per sentence.
+ */
+export function rankSentences(sentences: string[]): number[] {
+  const tokens = sentences.map(tokenize);
+  const n = sentences.length;
+  const weights = tokens.map((a, i) => tokens.map((b, j) => (i === j ? 0 : similarity(a, b))));
+  const outgoing = weights.map(row => row.reduce((sum, weight) => sum + weight, 0));
+
+  let scores = new Array<number>(n).fill(1);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = scores.map((_, i) => {
+      let incoming = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j][i] > 0 && outgoing[j] > 0) {
+          incoming += (weights[j][i] / outgoing[j]) * scores[j];
+        }
+      }
+      return (1 - DAMPING) + DAMPING * incoming;
+    });
+    const delta = next.reduce((max, score, i) => Math.max(max, Math.abs(score - scores[i])), 0);
+    scores = next;
+    if (delta < CONVERGENCE) break;
+  }
+
+  return scores;
+}
+
+/**
+ * Pick the `count` highest-ranked sentences and return them in their
+ * original order. Ties go to the earlier sentence, so output is deterministic.
+ */
+export function extractKeySentences(sentences: string[], count: number): string[] {
+  if (sentences.length <= count) return sentences;
+
+  const scores = rankSentences(sentences);
+  return sentences
+    .map((sentence, index) => ({ sentence, index, score: scores[index] }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, count)
+    .sort((a, b) => a.index - b.index)
+    .map(({ sentence }) => sentence);
+}
+
+/**
+ * Model-free TextRank summarizer, with lexicon-based sentiment. Used when no
+ * LLM is configured and as the fallback whenever one fails; output is
+ * deterministic, so it is also safe for tests and for running fully offline.
+ */
+export class ExtractiveSummarizer implements Summarizer {
+  readonly name = "extractive";
+  readonly model = "textrank";
+
+  async summarizeArticles(request: SummarizeRequest): Promise<ArticleSummary[]> {
+    const { articles, summaryLength = "medium" } = request;
+    return Promise.all(
+      articles.map(article =>
+        this.summarizeArticle(article.title, article.content || article.description || "", summaryLength)
+      )
+    );
+  }
+
+  async summarizeArticle(title: string, content: string, summaryLength: SummaryLength = "medium"): Promise<ArticleSummary> {
+    const sentences = splitSentences(content);
+    const summary = sentences.length > 0
+      ? extractKeySentences(sentences, SENTENCES_PER_LENGTH[summaryLength]).join(" ")
+      : title;
+    return { summary, method: this.name };
+  }
+
+  async analyzeSentiment(text: string): Promise<SentimentResult> {
+    return analyzeLexiconSentiment(text);
+  }
+
+  async generateTopicSummary(topic: string, articles: TopicArticle[], options: TopicSummaryOptions = {}): Promise<TopicSummaryResult> {
+    const candidates = articles.flatMap((article, index) =>
+      splitSentences(article.description || article.content || "").map(sentence => ({
+        sentence,
+        citation: index + 1,
+      }))
+    );
+    const chosen = new Set(extractKeySentences(candidates.map(c => c.sentence), TOPIC_SUMMARY_POINTS));
+    const points = candidates
+      .filter(candidate => chosen.delete(candidate.sentence))
+      .map(candidate => `• ${candidate.sentence} [${candidate.citation}]`);
+
+    const summary = points.length > 0
+      ? `Key points from the latest coverage of "${topic}":\n\n${points.join("\n")}`
+      : `No article text was available to summarize for "${topic}".`;
+    // Nothing to wait for, so the whole summary goes out as a single token
+    options.onToken?.(summary);
+
+    return toTopicSummaryResult(summary, articles, this.name);
+  }
+}
+
+/**
+ * Wraps a model-backed summarizer so every failure (network, quota, empty
+ * reply) degrades to the extractive summarizer instead of an error. The
+ * `method` on each result says which one actually answered.
+ */
+export class FallbackSummarizer implements Summarizer {
+  readonly name: string;
+  readonly model: string;
+  private fallback = new ExtractiveSummarizer();
+
+  constructor(private primary: Summarizer) {
+    this.name = primary.name;
+    this.model = primary.model;
+  }
+
+  async summarizeArticles(request: SummarizeRequest): Promise<ArticleSummary[]> {
+    const { articles, summaryLength = "medium" } = request;
+    const summaries: ArticleSummary[] = [];
+
+    for (const article of articles) {
+      summaries.push(
+        await this.summarizeArticle(article.title, article.content || article.description || "", summaryLength)
+      );
+    }
+
+    return summaries;
+  }
+
+  async summarizeArticle(title: string, content: string, summaryLength: SummaryLength = "medium"): Promise<ArticleSummary> {
+    try {
+      return await this.primary.summarizeArticle(title, content, summaryLength);
+    } catch (error) {
+      console.error(`Error summarizing article "${title}" with ${this.primary.name}, using extractive summary:`, error);
+      return this.fallback.summarizeArticle(title, content, summaryLength);
+    }
+  }
+
+  async analyzeSentiment(text: string): Promise<SentimentResult> {
+    try {
+      return await this.primary.analyzeSentiment(text);
+    } catch (error) {
+      console.error(`Error analyzing sentiment with ${this.primary.name}:`, error);
+      return this.fallback.analyzeSentiment(text);
+    }
+  }
+
+  async generateTopicSummary(topic: string, articles: TopicArticle[], options: TopicSummaryOptions = {}): Promise<TopicSummaryResult> {
+    let streamed = false;
+    try {
+      return await this.primary.generateTopicSummary(topic, articles, {
+        ...options,
+        onToken: (text) => {
+          streamed = true;
+          options.onToken?.(text);
+        },
+      });
+    } catch (error) {
+      // A cancelled request has nobody left to answer
+      if (options.signal?.aborted) throw error;
+      console.error(`Error generating topic summary for "${topic}" with ${this.primary.name}, using extractive summary:`, error);
+      // The fallback streams a whole new summary, so drop the primary's partial text first
+      if (streamed) options.onReset?.();
+      return this.fallback.generateTopicSummary(topic, articles, options);
+    }
+  }
+}
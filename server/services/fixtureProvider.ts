@@ -0,0 +1,123 @@
+import fs from "fs";
+import path from "path";
+import { type NewsFilters } from "@shared/schema";
+import { matchesQuery, queryRelevance, paginateArticles, toIsoBound } from "./newsProvider";
+import type { NewsProvider, NewsAPIArticle, NewsAPIResponse, NewsAPISource } from "./newsProvider";
+import { normalizeArticleUrl } from "../utils/url";
+
+interface HeadlineRecording {
+  country: string;
+  category: string;
+  response: NewsAPIResponse;
+}
+
+interface FixtureArticle extends NewsAPIArticle {
+  country: string;
+  category: string;
+}
+
+// Resolved from the working directory so it is the same for tsx in dev and the esbuild bundle in dist/
+export const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), "fixtures", "news");
+
+function readJson<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as T;
+}
+
+function newestFirst(a: NewsAPIArticle, b: NewsAPIArticle): number {
+  return new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime();
+}
+
+/**
+ * Serves recorded newsapi.org responses from disk so the app runs without
+ * network access or an API key. The fixtures directory holds:
+ *
+ * - top-headlines.json: [{ country, category, response }] recordings
+ * - sources.json: a recorded /sources response
+ *
+ * Headlines are filtered by the recording's country/category, searches run
+ * over every recorded article, and both honour q, sources and paging.
+ */
+export class FixtureNewsProvider implements NewsProvider {
+  readonly name = 'fixture';
+  private articles: FixtureArticle[];
+  private sources: NewsAPISource[];
+
+  constructor(fixturesDir: string = DEFAULT_FIXTURES_DIR) {
+    const recordings = readJson<HeadlineRecording[]>(path.join(fixturesDir, "top-headlines.json"));
+    const seen = new Set<string>();
+
+    this.articles = recordings.flatMap(recording =>
+      recording.response.articles.map(article => ({
+        ...article,
+        country: recording.country,
+        category: recording.category,
+      })),
+    ).filter(article => {
+      const key = normalizeArticleUrl(article.url);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    const sourcesFile = path.join(fixturesDir, "sources.json");
+    this.sources = fs.existsSync(sourcesFile)
+      ? readJson<{ sources: NewsAPISource[] }>(sourcesFile).sources
+      : [];
+  }
+
+  private matches(article: FixtureArticle, filters: NewsFilters): boolean {
+    if (filters.sources && filters.sources.length > 0 && !filters.sources.includes(article.source.id ?? "")) return false;
+    if (filters.language && article.source.language && article.source.language !== filters.language) return false;
+    if (filters.q && !matchesQuery(article, filters.q, filters.searchIn)) return false;
+    return true;
+  }
+
+  private toResponse(articles: FixtureArticle[], filters: NewsFilters): NewsAPIResponse {
+    return paginateArticles(
+      articles.map(({ country: _country, category: _category, ...article }) => article),
+      filters,
+    );
+  }
+
+  async fetchTopHeadlines(filters: NewsFilters = {}): Promise<NewsAPIResponse> {
+    // Same default as newsapi.org via NewsService: US headlines unless a country or sources are given
+    const country = filters.country ?? (filters.sources ? undefined : 'us');
+
+    const articles = this.articles
+      .filter(article => !country || article.country === country)
+      .filter(article => !filters.category || article.category === filters.category)
+      .filter(article => this.matches(article, filters))
+      .sort(newestFirst);
+
+    return this.toResponse(articles, filters);
+  }
+
+  async searchEverything(filters: NewsFilters = {}): Promise<NewsAPIResponse> {
+    const from = toIsoBound(filters.from);
+    const to = toIsoBound(filters.to);
+
+    let articles = this.articles
+      .filter(article => this.matches(article, filters))
+      .filter(article => {
+        const publishedAt = new Date(article.publishedAt).toISOString();
+        return (!from || publishedAt >= from) && (!to || publishedAt <= to);
+      });
+
+    if (filters.sortBy === "relevancy" && filters.q) {
+      const q = filters.q;
+      articles = articles.sort((a, b) => queryRelevance(b, q) - queryRelevance(a, q));
+    } else {
+      articles = articles.sort(newestFirst);
+    }
+
+    return this.toResponse(articles, filters);
+  }
+
+  async getSources(country?: string, category?: string): Promise<{ sources: NewsAPISource[] }> {
+    return {
+      sources: this.sources.filter(source =>
+        (!country || source.country === country) && (!category || source.category === category)
+      ),
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import { GoogleGenAI } from "@google/genai";
+import { type SummarizeRequest } from "@shared/schema";
+import {
+  type Summarizer,
+  type SummaryLength,
+  type ArticleSummary,
+  type SentimentResult,
+  type TopicArticle,
+  type TopicSummaryResult,
+  type TopicSummaryOptions,
+  buildArticlePrompt,
+  buildTopicPrompt,
+  clampSentiment,
+  toTopicSummaryResult,
+  SENTIMENT_SYSTEM_PROMPT,
+} from "./summarizer";
+
+const SUMMARY_MODEL = "gemini-2.5-flash";
+const ANALYSIS_MODEL = "gemini-2.5-pro";
+
+export class GeminiService implements Summarizer {
+  readonly name = "gemini";
+  readonly model = `${SUMMARY_MODEL}+${ANALYSIS_MODEL}`;
+  private ai: GoogleGenAI;
+
+  constructor() {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is required');
+    }
+
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async summarizeArticles(request: SummarizeRequest): Promise<ArticleSummary[]> {
+    const { articles, summaryLength = "medium" } = request;
+    const summaries: ArticleSummary[] = [];
+
+    for (const article of articles) {
+      summaries.push(
+        await this.summarizeArticle(article.title, article.content || article.description || "", summaryLength)
+      );
+    }
+
+    return summaries;
+  }
+
+  async summarizeArticle(title: string, content: string, summaryLength: SummaryLength = "medium"): Promise<ArticleSummary> {
+    const response = await this.ai.models.generateContent({
+      model: SUMMARY_MODEL,
+      contents: buildArticlePrompt(title, content, summaryLength),
+    });
+
+    const summary = response.text?.trim();
+    if (!summary) {
+      throw new Error("Empty response from model");
+    }
+    return { summary, method: this.name };
+  }
+
+  async analyzeSentiment(text: string): Promise<SentimentResult> {
+    const response = await this.ai.models.generateContent({
+      model: ANALYSIS_MODEL,
+      config: {
+        systemInstruction: SENTIMENT_SYSTEM_PROMPT,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: "object",
+          properties: {
+            rating: { type: "number" },
+            confidence: { type: "number" },
+          },
+          required: ["rating", "confidence"],
+        },
+      },
+      contents: text,
+    });
+
+    const rawJson = response.text;
+    if (!rawJson) {
+      throw new Error("Empty response from model");
+    }
+    return clampSentiment(JSON.parse(rawJson));
+  }
+
+  async generateTopicSummary(topic: string, articles: TopicArticle[], options: TopicSummaryOptions = {}): Promise<TopicSummaryResult> {
+    const stream = await this.ai.models.generateContentStream({
+      model: ANALYSIS_MODEL,
+      config: { abortSignal: options.signal },
+      contents: buildTopicPrompt(topic, articles),
+    });
+
+    let text = "";
+    for await (const chunk of stream) {
+      if (!chunk.text) continue;
+      text += chunk.text;
+      options.onToken?.(chunk.text);
+    }
+
+    const summary = text.trim();
+    if (!summary) {
+      throw new Error("Empty response from model");
+    }
+    return toTopicSummaryResult(summary, articles, this.name);
+  }
+}
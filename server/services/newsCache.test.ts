@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from "vitest";
+import { CachingNewsProvider } from "./newsCache";
+import type { NewsProvider } from "./newsProvider";
+import { NewsApiError } from "./newsService";
+
+// A provider that answers each call with the next result: a response, or an error to throw
+function scriptedProvider(...results: (number | Error)[]) {
+  const next = vi.fn(async () => {
+    const result = results.shift();
+    if (result instanceof Error) throw result;
+    return { status: "ok", totalResults: result ?? 0, articles: [] };
+  });
+  const provider: NewsProvider = {
+    name: "newsapi",
+    fetchTopHeadlines: next,
+    searchEverything: next,
+    getSources: async () => ({ sources: [] }),
+  };
+  return { provider, next };
+}
+
+describe("CachingNewsProvider", () => {
+  it("serves the last response as stale while rate limited", async () => {
+    const { provider, next } = scriptedProvider(1, new NewsApiError("Too many requests", 429, "rateLimited", 30));
+    const cache = new CachingNewsProvider(provider, 0);
+
+    await cache.fetchTopHeadlines({ country: "us" });
+    await expect(cache.fetchTopHeadlines({ country: "us" })).resolves.toMatchObject({ totalResults: 1, stale: true });
+    await expect(cache.fetchTopHeadlines({ country: "us" })).resolves.toMatchObject({ totalResults: 1, stale: true });
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuses uncached requests during the cooldown without calling upstream", async () => {
+    const { provider, next } = scriptedProvider(new NewsApiError("Too many requests", 429, "rateLimited", 30), 1);
+    const cache = new CachingNewsProvider(provider);
+
+    await expect(cache.fetchTopHeadlines({ country: "us" })).rejects.toMatchObject({ status: 429 });
+    const error = await cache.searchEverything({ q: "transit" }).catch(error => error);
+    expect(error).toBeInstanceOf(NewsApiError);
+    expect(error.isRateLimited).toBe(true);
+    expect(error.retryAfter).toBeGreaterThan(0);
+    expect(error.retryAfter).toBeLessThanOrEqual(30);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
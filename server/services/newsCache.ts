@@ -0,0 +1,139 @@
+import { type NewsFilters } from "@shared/schema";
+import type { NewsProvider, NewsAPIResponse, NewsAPISourcesResponse } from "./newsProvider";
+import { NewsApiError } from "./newsService";
+
+const DEFAULT_TTL_SECONDS = 5 * 60;
+// How long an expired response is kept around as a fallback for rate limiting
+const STALE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 500;
+// Pause upstream calls this long after a 429 that came without Retry-After
+const DEFAULT_RATE_LIMIT_COOLDOWN_SECONDS = 60;
+
+// Filters that reach the upstream API; the rest (e.g. sentiment) are applied after fetching
+const UPSTREAM_FILTERS = ["country", "category", "sources", "q", "searchIn", "language", "from", "to", "sortBy", "pageSize", "page"] as const;
+
+interface CacheEntry {
+  value: NewsAPIResponse | NewsAPISourcesResponse;
+  storedAt: number;
+}
+
+function isRateLimited(error: unknown): error is NewsApiError {
+  return error instanceof NewsApiError && error.isRateLimited;
+}
+
+// Same filters in any order, case or spelling of empty values give the same key. The query
+// keeps its case, since NewsAPI reads upper-case AND/OR/NOT as operators; only its spacing is normalized
+function cacheKey(endpoint: string, params: Record<string, unknown>): string {
+  const normalized = Object.keys(params)
+    .filter(key => (UPSTREAM_FILTERS as readonly string[]).includes(key))
+    .sort()
+    .flatMap(key => {
+      const value = params[key];
+      if (value === undefined || value === null || value === "") return [];
+      if (Array.isArray(value)) {
+        return value.length > 0 ? [[key, [...value].map(String).sort().join(",")]] : [];
+      }
+      const text = String(value).trim();
+      return [[key, key === "q" ? text.replace(/\s+/g, " ") : text.toLowerCase()]];
+    });
+  return `${endpoint}?${new URLSearchParams(normalized).toString()}`;
+}
+
+/**
+ * TTL cache in front of a news provider (newsapi.org in practice). Identical
+ * concurrent requests share one upstream call, and when the upstream API
+ * rate-limits us the last response we had is served with `stale: true`
+ * instead of an error. After a rate limit, upstream calls pause for the
+ * Retry-After period so a burst of requests does not extend the ban.
+ */
+export class CachingNewsProvider implements NewsProvider {
+  readonly name: string;
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<NewsAPIResponse | NewsAPISourcesResponse>>();
+  private rateLimitedUntil = 0;
+
+  constructor(
+    private inner: NewsProvider,
+    private ttlMs: number = (Number(process.env.NEWS_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS) * 1000,
+  ) {
+    this.name = inner.name;
+  }
+
+  fetchTopHeadlines(filters: NewsFilters = {}): Promise<NewsAPIResponse> {
+    return this.cached(
+      cacheKey("top-headlines", filters),
+      () => this.inner.fetchTopHeadlines(filters),
+    ) as Promise<NewsAPIResponse>;
+  }
+
+  searchEverything(filters: NewsFilters = {}): Promise<NewsAPIResponse> {
+    return this.cached(
+      cacheKey("everything", filters),
+      () => this.inner.searchEverything(filters),
+    ) as Promise<NewsAPIResponse>;
+  }
+
+  getSources(country?: string, category?: string): Promise<NewsAPISourcesResponse> {
+    return this.cached(
+      cacheKey("sources", { country, category }),
+      () => this.inner.getSources(country, category),
+    ) as Promise<NewsAPISourcesResponse>;
+  }
+
+  private async cached(
+    key: string,
+    load: () => Promise<NewsAPIResponse | NewsAPISourcesResponse>,
+  ): Promise<NewsAPIResponse | NewsAPISourcesResponse> {
+    const entry = this.entries.get(key);
+    const now = Date.now();
+
+    if (entry && now - entry.storedAt < this.ttlMs) {
+      return entry.value;
+    }
+    if (now < this.rateLimitedUntil) {
+      if (entry) return { ...entry.value, stale: true };
+      // Nothing to fall back on, but calling upstream now would only extend the ban
+      const retryAfter = Math.ceil((this.rateLimitedUntil - now) / 1000);
+      throw new NewsApiError("News API rate limit cooldown in effect", 429, "rateLimited", retryAfter);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = load()
+      .then(value => {
+        this.store(key, value);
+        return value;
+      })
+      .catch(error => {
+        if (!isRateLimited(error)) throw error;
+
+        const cooldown = error.retryAfter ?? DEFAULT_RATE_LIMIT_COOLDOWN_SECONDS;
+        this.rateLimitedUntil = Date.now() + cooldown * 1000;
+        if (!entry) throw error;
+
+        console.warn(`News API rate limited; serving cached response for ${key}`);
+        return { ...entry.value, stale: true };
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private store(key: string, value: NewsAPIResponse | NewsAPISourcesResponse): void {
+    const now = Date.now();
+    // Re-inserting keeps the Map in storedAt order, oldest first
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: now });
+
+    for (const [oldKey, oldEntry] of Array.from(this.entries.entries())) {
+      if (this.entries.size <= MAX_ENTRIES && now - oldEntry.storedAt < STALE_TTL_MS) break;
+      this.entries.delete(oldKey);
+    }
+  }
+}
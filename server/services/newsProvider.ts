@@ -0,0 +1,90 @@
+import { searchInFields, type NewsFilters, type SearchInField } from "@shared/schema";
+import { parseNewsQuery, evaluateQuery, positiveTerms } from "./newsQuery";
+
+export interface NewsAPISource {
+  id: string | null;
+  name: string;
+  description?: string;
+  url?: string;
+  category?: string;
+  language?: string;
+  country?: string;
+}
+
+export interface NewsAPIArticle {
+  source: NewsAPISource;
+  author: string | null;
+  title: string;
+  description: string | null;
+  url: string;
+  urlToImage: string | null;
+  publishedAt: string;
+  content: string | null;
+}
+
+export interface NewsAPIResponse {
+  status: string;
+  totalResults: number;
+  articles: NewsAPIArticle[];
+  // Set when an expired cached response is served because the upstream API is rate limiting us
+  stale?: boolean;
+}
+
+export interface NewsAPISourcesResponse {
+  sources: NewsAPISource[];
+  stale?: boolean;
+}
+
+/**
+ * A source of news articles. Every provider answers in newsapi.org's response
+ * shape so routes, storage and the client never need to know where a story
+ * came from.
+ */
+export interface NewsProvider {
+  readonly name: string;
+  fetchTopHeadlines(filters?: NewsFilters): Promise<NewsAPIResponse>;
+  searchEverything(filters?: NewsFilters): Promise<NewsAPIResponse>;
+  getSources(country?: string, category?: string): Promise<NewsAPISourcesResponse>;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Helpers for providers that filter and page an in-memory article list themselves
+
+// q (see newsQuery.ts for the syntax) must match the searchIn fields, or all three when none are given
+export function matchesQuery(article: NewsAPIArticle, q: string, searchIn?: SearchInField[]): boolean {
+  const query = parseNewsQuery(q);
+  if (!query) return true;
+
+  const fields: readonly SearchInField[] = searchIn && searchIn.length > 0 ? searchIn : searchInFields;
+  const haystack = fields.map(field => article[field] ?? "").join(" ").toLowerCase();
+  return evaluateQuery(query, haystack);
+}
+
+// Rough stand-in for newsapi.org's sortBy=relevancy: title hits count more than body hits
+export function queryRelevance(article: NewsAPIArticle, q: string): number {
+  const title = article.title.toLowerCase();
+  const body = `${article.description ?? ""} ${article.content ?? ""}`.toLowerCase();
+  return positiveTerms(parseNewsQuery(q)).reduce(
+    (score, term) => score + (title.includes(term) ? 3 : 0) + (body.includes(term) ? 1 : 0),
+    0,
+  );
+}
+
+export function paginateArticles(articles: NewsAPIArticle[], filters: NewsFilters): NewsAPIResponse {
+  const pageSize = filters.pageSize ?? DEFAULT_PAGE_SIZE;
+  const page = filters.page ?? 1;
+  const start = (page - 1) * pageSize;
+  return {
+    status: "ok",
+    totalResults: articles.length,
+    articles: articles.slice(start, start + pageSize),
+  };
+}
+
+// Parse a from/to filter into an ISO timestamp comparable with publishedAt, ignoring invalid dates
+export function toIsoBound(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
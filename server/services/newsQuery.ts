@@ -0,0 +1,191 @@
+/**
+ * The subset of newsapi.org's `q` syntax the in-memory providers understand,
+ * so a query built for the API filters fixture and RSS articles the same way:
+ * exact phrases in double quotes, AND / OR / NOT (upper case), `+` / `-`
+ * prefixes for required and excluded terms, and parentheses for grouping.
+ * Terms next to each other with no operator must all match.
+ *
+ * The parser is forgiving: an unclosed parenthesis or quote runs to the end
+ * of the query and a stray `)` is ignored, since a half-typed query should
+ * still narrow the results rather than fail the request.
+ */
+
+export type QueryNode =
+  | { type: "term"; text: string }
+  | { type: "and"; nodes: QueryNode[] }
+  | { type: "or"; nodes: QueryNode[] }
+  | { type: "not"; node: QueryNode };
+
+type Token =
+  | { type: "term"; text: string }
+  | { type: "operator"; text: "AND" | "OR" | "NOT" | "+" | "-" }
+  | { type: "open" }
+  | { type: "close" };
+
+function tokenize(q: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < q.length) {
+    const char = q[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(") {
+      tokens.push({ type: "open" });
+      i++;
+    } else if (char === ")") {
+      tokens.push({ type: "close" });
+      i++;
+    } else if (char === '"') {
+      const end = q.indexOf('"', i + 1);
+      const phrase = q.slice(i + 1, end === -1 ? q.length : end).trim();
+      if (phrase) tokens.push({ type: "term", text: phrase });
+      i = end === -1 ? q.length : end + 1;
+    } else if ((char === "+" || char === "-") && i + 1 < q.length && !/\s/.test(q[i + 1])) {
+      tokens.push({ type: "operator", text: char });
+      i++;
+    } else {
+      let end = i;
+      while (end < q.length && !/[\s()"]/.test(q[end])) end++;
+      const word = q.slice(i, end);
+      if (word === "AND" || word === "OR" || word === "NOT") {
+        tokens.push({ type: "operator", text: word });
+      } else {
+        tokens.push({ type: "term", text: word });
+      }
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+class QueryParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): QueryNode | null {
+    const nodes: QueryNode[] = [];
+    while (this.position < this.tokens.length) {
+      const node = this.parseOr();
+      if (node) {
+        nodes.push(node);
+      } else {
+        // Only a stray ")" or a dangling operator gets here; skip it
+        this.position++;
+      }
+    }
+    return combine("and", nodes);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isOperator(text: string): boolean {
+    const token = this.peek();
+    return token?.type === "operator" && token.text === text;
+  }
+
+  private parseOr(): QueryNode | null {
+    const nodes: QueryNode[] = [];
+    const first = this.parseAnd();
+    if (first) nodes.push(first);
+
+    while (this.isOperator("OR")) {
+      this.position++;
+      const next = this.parseAnd();
+      if (next) nodes.push(next);
+    }
+    return combine("or", nodes);
+  }
+
+  private parseAnd(): QueryNode | null {
+    const nodes: QueryNode[] = [];
+
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.type === "close" || (token.type === "operator" && token.text === "OR")) break;
+
+      if (token.type === "operator" && token.text === "AND") {
+        this.position++;
+        continue;
+      }
+
+      const node = this.parseUnary();
+      if (node) nodes.push(node);
+    }
+    return combine("and", nodes);
+  }
+
+  private parseUnary(): QueryNode | null {
+    if (this.isOperator("NOT") || this.isOperator("-")) {
+      this.position++;
+      const node = this.parseUnary();
+      return node ? { type: "not", node } : null;
+    }
+    if (this.isOperator("+")) {
+      this.position++;
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode | null {
+    const token = this.peek();
+
+    if (token?.type === "term") {
+      this.position++;
+      return { type: "term", text: token.text.toLowerCase() };
+    }
+    if (token?.type === "open") {
+      this.position++;
+      const node = this.parseOr();
+      if (this.peek()?.type === "close") this.position++;
+      return node;
+    }
+    // e.g. "NOT" followed by ")" or "OR"; leave the token for the caller
+    return null;
+  }
+}
+
+function combine(type: "and" | "or", nodes: QueryNode[]): QueryNode | null {
+  if (nodes.length === 0) return null;
+  if (nodes.length === 1) return nodes[0];
+  return { type, nodes };
+}
+
+// Null when the query has no terms at all, which matches everything
+export function parseNewsQuery(q: string): QueryNode | null {
+  return new QueryParser(tokenize(q)).parse();
+}
+
+// `text` must already be lower case
+export function evaluateQuery(node: QueryNode, text: string): boolean {
+  switch (node.type) {
+    case "term":
+      return text.includes(node.text);
+    case "and":
+      return node.nodes.every(child => evaluateQuery(child, text));
+    case "or":
+      return node.nodes.some(child => evaluateQuery(child, text));
+    case "not":
+      return !evaluateQuery(node.node, text);
+  }
+}
+
+// Terms that count towards a match, i.e. everything not under a NOT
+export function positiveTerms(node: QueryNode | null): string[] {
+  if (!node) return [];
+  switch (node.type) {
+    case "term":
+      return [node.text];
+    case "and":
+    case "or":
+      return node.nodes.flatMap(positiveTerms);
+    case "not":
+      return [];
+  }
+}
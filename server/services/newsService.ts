@@ -1,28 +1,29 @@
 import { type NewsFilters } from "@shared/schema";
+import type { NewsProvider, NewsAPIResponse, NewsAPISource } from "./newsProvider";
+
+/**
+ * A non-2xx answer from newsapi.org. `code` is the API's own error code from
+ * the JSON body (e.g. "apiKeyInvalid", "rateLimited") when it sent one.
+ */
+export class NewsApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+    // Seconds to wait before retrying, from the Retry-After header
+    readonly retryAfter?: number,
+  ) {
+    super(message);
+    this.name = "NewsApiError";
+  }
 
-interface NewsAPISource {
-  id: string | null;
-  name: string;
-}
-
-interface NewsAPIArticle {
-  source: NewsAPISource;
-  author: string | null;
-  title: string;
-  description: string | null;
-  url: string;
-  urlToImage: string | null;
-  publishedAt: string;
-  content: string | null;
-}
-
-interface NewsAPIResponse {
-  status: string;
-  totalResults: number;
-  articles: NewsAPIArticle[];
+  get isRateLimited(): boolean {
+    return this.status === 429 || this.code === "rateLimited";
+  }
 }
 
-export class NewsService {
+export class NewsService implements NewsProvider {
+  readonly name = 'newsapi';
   private apiKey: string;
   private baseUrl = 'https://newsapi.org/v2';
 
@@ -33,6 +34,25 @@ export class NewsService {
     }
   }
 
+  private async parseResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+      const errorText = await response.text();
+      let code: string | undefined;
+      let message = errorText;
+      try {
+        const body = JSON.parse(errorText);
+        code = body.code;
+        message = body.message ?? errorText;
+      } catch {
+        // Not JSON (e.g. a proxy error page); keep the raw text
+      }
+      const retryAfter = Number(response.headers.get('retry-after')) || undefined;
+      throw new NewsApiError(`News API error (${response.status}): ${message}`, response.status, code, retryAfter);
+    }
+
+    return response.json();
+  }
+
   async fetchTopHeadlines(filters: NewsFilters = {}): Promise<NewsAPIResponse> {
     const params = new URLSearchParams();
     
@@ -58,21 +78,20 @@ export class NewsService {
       },
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`News API error (${response.status}): ${errorText}`);
-    }
-
-    return response.json();
+    return this.parseResponse(response);
   }
 
   async searchEverything(filters: NewsFilters = {}): Promise<NewsAPIResponse> {
     const params = new URLSearchParams();
     
     if (filters.q) params.set('q', filters.q);
+    if (filters.searchIn && filters.searchIn.length > 0) {
+      params.set('searchIn', filters.searchIn.join(','));
+    }
     if (filters.sources && filters.sources.length > 0) {
       params.set('sources', filters.sources.join(','));
     }
+    if (filters.language) params.set('language', filters.language);
     if (filters.from) params.set('from', filters.from);
     if (filters.to) params.set('to', filters.to);
     if (filters.sortBy) params.set('sortBy', filters.sortBy);
@@ -92,12 +111,7 @@ export class NewsService {
       },
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`News API error (${response.status}): ${errorText}`);
-    }
-
-    return response.json();
+    return this.parseResponse(response);
   }
 
   async getSources(country?: string, category?: string): Promise<{ sources: NewsAPISource[] }> {
@@ -114,11 +128,6 @@ export class NewsService {
       },
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`News API error (${response.status}): ${errorText}`);
-    }
-
-    return response.json();
+    return this.parseResponse(response);
   }
 }
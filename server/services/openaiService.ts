@@ -1,175 +1,107 @@
-import { GoogleGenAI } from "@google/genai";
+import OpenAI from "openai";
 import { type SummarizeRequest } from "@shared/schema";
-
-export class GeminiService {
-  private ai: GoogleGenAI;
+import {
+  type Summarizer,
+  type SummaryLength,
+  type ArticleSummary,
+  type SentimentResult,
+  type TopicArticle,
+  type TopicSummaryResult,
+  type TopicSummaryOptions,
+  buildArticlePrompt,
+  buildTopicPrompt,
+  clampSentiment,
+  toTopicSummaryResult,
+  SENTIMENT_SYSTEM_PROMPT,
+} from "./summarizer";
+
+/**
+ * Summarizer for any server speaking the OpenAI chat completions API:
+ * api.openai.com, or a local Ollama / llama.cpp server via OPENAI_BASE_URL
+ * (e.g. http://localhost:11434/v1). Local servers usually ignore the key.
+ */
+export class OpenAICompatibleService implements Summarizer {
+  readonly name = "openai";
+  readonly model: string;
+  private client: OpenAI;
 
   constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is required');
+    const baseURL = process.env.OPENAI_BASE_URL;
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!baseURL && !apiKey) {
+      throw new Error('OPENAI_API_KEY or OPENAI_BASE_URL environment variable is required');
     }
-    
-    this.ai = new GoogleGenAI({ apiKey });
+
+    this.client = new OpenAI({ apiKey: apiKey || "not-needed", baseURL });
+    this.model = process.env.OPENAI_MODEL || "gpt-4o-mini";
   }
 
-  async summarizeArticles(request: SummarizeRequest): Promise<string[]> {
-    const { articles, summaryLength = "medium" } = request;
-    
-    const lengthInstructions = {
-      short: "Summarize in 1-2 concise sentences",
-      medium: "Summarize in 3-4 sentences with key details",
-      long: "Summarize in 5-6 sentences with comprehensive details"
-    };
+  private async complete(prompt: string, systemPrompt?: string): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        ...(systemPrompt ? [{ role: "system" as const, content: systemPrompt }] : []),
+        { role: "user" as const, content: prompt },
+      ],
+    });
+
+    const text = response.choices[0]?.message?.content?.trim();
+    if (!text) {
+      throw new Error("Empty response from model");
+    }
+    return text;
+  }
 
-    const summaries: string[] = [];
+  async summarizeArticles(request: SummarizeRequest): Promise<ArticleSummary[]> {
+    const { articles, summaryLength = "medium" } = request;
+    const summaries: ArticleSummary[] = [];
 
     for (const article of articles) {
-      try {
-        const prompt = `${lengthInstructions[summaryLength]} the following news article while maintaining the key points and important information:
-
-Title: ${article.title}
-Content: ${article.content || article.description || "No content available"}
-
-Please provide a clear, informative summary that captures the essence of the article.`;
-
-        const response = await this.ai.models.generateContent({
-          model: "gemini-2.5-flash",
-          contents: prompt,
-        });
-
-        const summary = response.text?.trim() || "Unable to generate summary";
-        summaries.push(summary);
-      } catch (error) {
-        console.error(`Error summarizing article "${article.title}":`, error);
-        summaries.push("Summary unavailable due to processing error");
-      }
+      summaries.push(
+        await this.summarizeArticle(article.title, article.content || article.description || "", summaryLength)
+      );
     }
 
     return summaries;
   }
 
-  async summarizeArticle(title: string, content: string, summaryLength: "short" | "medium" | "long" = "medium"): Promise<string> {
-    const lengthInstructions = {
-      short: "Summarize in 1-2 concise sentences",
-      medium: "Summarize in 3-4 sentences with key details", 
-      long: "Summarize in 5-6 sentences with comprehensive details"
-    };
-
-    try {
-      const prompt = `${lengthInstructions[summaryLength]} the following news article while maintaining the key points and important information:
-
-Title: ${title}
-Content: ${content || "No content available"}
-
-Please provide a clear, informative summary that captures the essence of the article.`;
-
-      const response = await this.ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-      });
-
-      return response.text?.trim() || "Unable to generate summary";
-    } catch (error) {
-      console.error(`Error summarizing article "${title}":`, error);
-      return "Summary unavailable due to processing error";
-    }
+  async summarizeArticle(title: string, content: string, summaryLength: SummaryLength = "medium"): Promise<ArticleSummary> {
+    const summary = await this.complete(buildArticlePrompt(title, content, summaryLength));
+    return { summary, method: this.name };
   }
 
-  async analyzeSentiment(text: string): Promise<{ rating: number; confidence: number }> {
-    try {
-      const systemPrompt = `You are a sentiment analysis expert. 
-Analyze the sentiment of the text and provide a rating
-from 1 to 5 stars and a confidence score between 0 and 1.
-Respond with JSON in this format: 
-{'rating': number, 'confidence': number}`;
-
-      const response = await this.ai.models.generateContent({
-        model: "gemini-2.5-pro",
-        config: {
-          systemInstruction: systemPrompt,
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: "object",
-            properties: {
-              rating: { type: "number" },
-              confidence: { type: "number" },
-            },
-            required: ["rating", "confidence"],
-          },
-        },
-        contents: text,
-      });
-
-      const rawJson = response.text;
-
-      if (rawJson) {
-        const result = JSON.parse(rawJson);
-        return {
-          rating: Math.max(1, Math.min(5, Math.round(result.rating))),
-          confidence: Math.max(0, Math.min(1, result.confidence)),
-        };
-      } else {
-        throw new Error("Empty response from model");
-      }
-    } catch (error) {
-      console.error("Error analyzing sentiment:", error);
-      return { rating: 3, confidence: 0.5 };
+  async analyzeSentiment(text: string): Promise<SentimentResult> {
+    const raw = await this.complete(text, SENTIMENT_SYSTEM_PROMPT);
+    // Not every local server supports JSON mode, so pull the first object out of the reply
+    const json = raw.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) {
+      throw new Error("No JSON in model response");
     }
+    return clampSentiment(JSON.parse(json.replace(/'/g, '"')));
   }
 
-  async generateTopicSummary(
-    topic: string, 
-    articles: Array<{title: string; content: string; description?: string; url: string; source: any}>
-  ): Promise<{summary: string; sourceLinks: Array<{title: string; url: string; source: string}>}> {
-    try {
-      // Prepare article content for analysis
-      const articleTexts = articles.map((article, index) => 
-        `Article ${index + 1}: ${article.title}
-Source: ${article.source?.name || 'Unknown'}
-Content: ${article.content || article.description || 'No content available'}
-URL: ${article.url}
----`
-      ).join('\n\n');
-
-      const prompt = `You are a news analyst. Based on the following articles about "${topic}", provide a comprehensive summary that:
-
-1. Gives an overview of the current situation regarding "${topic}"
-2. Highlights key developments, facts, and trends
-3. Mentions different perspectives or viewpoints if present
-4. Organizes information in a clear, informative manner
-
-Here are the articles:
-
-${articleTexts}
-
-Please provide a well-structured summary that captures the essence of what's happening with "${topic}" based on these sources. Make it informative and comprehensive while being concise.`;
-
-      const response = await this.ai.models.generateContent({
-        model: "gemini-2.5-pro",
-        contents: prompt,
-      });
-
-      const summary = response.text?.trim() || "Unable to generate topic summary";
-
-      // Extract source links for deep dive reading
-      const sourceLinks = articles.map(article => ({
-        title: article.title,
-        url: article.url,
-        source: article.source?.name || 'Unknown Source'
-      }));
+  async generateTopicSummary(topic: string, articles: TopicArticle[], options: TopicSummaryOptions = {}): Promise<TopicSummaryResult> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: [{ role: "user", content: buildTopicPrompt(topic, articles) }],
+        stream: true,
+      },
+      { signal: options.signal },
+    );
+
+    let text = "";
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (!token) continue;
+      text += token;
+      options.onToken?.(token);
+    }
 
-      return { summary, sourceLinks };
-    } catch (error) {
-      console.error(`Error generating topic summary for "${topic}":`, error);
-      return { 
-        summary: "Unable to generate topic summary due to processing error",
-        sourceLinks: articles.map(article => ({
-          title: article.title,
-          url: article.url,
-          source: article.source?.name || 'Unknown Source'
-        }))
-      };
+    const summary = text.trim();
+    if (!summary) {
+      throw new Error("Empty response from model");
     }
+    return toTopicSummaryResult(summary, articles, this.name);
   }
 }
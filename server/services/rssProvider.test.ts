@@ -0,0 +1,207 @@
+import fs from "fs";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { parseFeed, parseFeedList, RssFeedProvider, type FeedConfig } from "./rssProvider";
+
+const FEEDS_DIR = path.resolve(process.cwd(), "fixtures", "feeds");
+
+const TECH_URL = "https://techdaily.example.com/rss";
+const SCIENCE_URL = "https://scienceweekly.example.com/atom";
+
+const FEED_FILES: Record<string, string> = {
+  [TECH_URL]: "tech-daily.rss.xml",
+  [SCIENCE_URL]: "science-weekly.atom.xml",
+};
+
+function readFeed(file: string): string {
+  return fs.readFileSync(path.join(FEEDS_DIR, file), "utf-8");
+}
+
+describe("parseFeed", () => {
+  it("parses RSS 2.0 items and drops items without a link", () => {
+    const articles = parseFeed(readFeed("tech-daily.rss.xml"), { url: TECH_URL });
+
+    expect(articles.map(article => article.url)).toEqual([
+      "https://techdaily.example.com/2025/10/05/database-1-0",
+      "https://techdaily.example.com/2025/10/06/ai-accelerator",
+      "https://techdaily.example.com/2025/10/04/color-e-reader",
+    ]);
+    expect(articles[0]).toEqual({
+      source: { id: "tech-daily", name: "Tech Daily" },
+      author: "Sam Ortiz",
+      title: "Open-source database reaches 1.0",
+      description: "After five years, the project ships a stable release.",
+      url: "https://techdaily.example.com/2025/10/05/database-1-0",
+      urlToImage: "https://techdaily.example.com/images/database.jpg",
+      publishedAt: "2025-10-05T09:00:00.000Z",
+      content: "After five years in development, the open-source database project shipped its 1.0 release with a stable storage format.",
+    });
+    expect(articles[1].urlToImage).toBe("https://techdaily.example.com/images/accelerator.jpg");
+    expect(articles[1].description).toBe("The accelerator doubles laptop battery life & runs models on-device.");
+    // Without content:encoded the description stands in for the content
+    expect(articles[2].content).toBe(articles[2].description);
+  });
+
+  it("parses Atom entries", () => {
+    const articles = parseFeed(readFeed("science-weekly.atom.xml"), { url: SCIENCE_URL });
+
+    expect(articles).toHaveLength(2);
+    expect(articles[0]).toMatchObject({
+      source: { id: "science-weekly", name: "Science Weekly" },
+      author: "Helen Park",
+      url: "https://scienceweekly.example.com/exoplanet-water",
+      urlToImage: "https://scienceweekly.example.com/images/exoplanet.png",
+      publishedAt: "2025-10-06T10:00:00.000Z",
+    });
+    expect(articles[1]).toMatchObject({
+      title: "Spring is arriving earlier across Europe",
+      url: "https://scienceweekly.example.com/spring-earlier",
+      publishedAt: "2025-10-05T08:15:00.000Z",
+      content: "Leaf-out dates across Europe have moved forward by about two weeks since the 1970s, a new climate study finds.",
+    });
+  });
+
+  it("uses the configured name as the source", () => {
+    const [article] = parseFeed(readFeed("tech-daily.rss.xml"), { url: TECH_URL, name: "My Tech" });
+    expect(article.source).toEqual({ id: "my-tech", name: "My Tech" });
+  });
+
+  it("rejects documents that are neither RSS nor Atom", () => {
+    expect(() => parseFeed("<html><body>Not a feed</body></html>", { url: TECH_URL })).toThrow(/Unrecognised feed format/);
+  });
+});
+
+describe("parseFeedList", () => {
+  it.each<[string, FeedConfig[]]>([
+    ["", []],
+    ["https://a.example.com/rss", [{ url: "https://a.example.com/rss" }]],
+    [
+      "technology=https://a.example.com/rss, https://b.example.com/atom",
+      [{ category: "technology", url: "https://a.example.com/rss" }, { url: "https://b.example.com/atom" }],
+    ],
+    [
+      "name=Tech Daily;category=Technology;country=US|https://a.example.com/rss?format=xml",
+      [{ name: "Tech Daily", category: "technology", country: "us", url: "https://a.example.com/rss?format=xml" }],
+    ],
+    ["country=gb|https://b.example.com/atom", [{ country: "gb", url: "https://b.example.com/atom" }]],
+  ])("parses %j", (value, expected) => {
+    expect(parseFeedList(value)).toEqual(expected);
+  });
+
+  it("rejects unknown options", () => {
+    expect(() => parseFeedList("lang=en|https://a.example.com/rss")).toThrow(/Invalid RSS_FEEDS option/);
+  });
+});
+
+describe("RssFeedProvider", () => {
+  const fetchMock = vi.fn(async (url: string | URL | Request) => {
+    const file = FEED_FILES[String(url)];
+    return file
+      ? new Response(readFeed(file), { status: 200 })
+      : new Response("Not found", { status: 404 });
+  });
+
+  const feeds: FeedConfig[] = [
+    { url: TECH_URL, category: "technology", country: "us" },
+    { url: SCIENCE_URL, category: "science", country: "gb" },
+  ];
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchMock.mockClear();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("merges feeds newest first", async () => {
+    const response = await new RssFeedProvider(feeds).fetchTopHeadlines();
+
+    expect(response.totalResults).toBe(5);
+    expect(response.articles.map(article => article.publishedAt)).toEqual([
+      "2025-10-06T12:30:00.000Z",
+      "2025-10-06T10:00:00.000Z",
+      "2025-10-05T09:00:00.000Z",
+      "2025-10-05T08:15:00.000Z",
+      "2025-10-04T16:45:00.000Z",
+    ]);
+    // Feed-level category/country are used for filtering, not returned
+    expect(response.articles[0]).not.toHaveProperty("category");
+  });
+
+  it("filters headlines by category and country", async () => {
+    const provider = new RssFeedProvider(feeds);
+
+    const science = await provider.fetchTopHeadlines({ category: "science" });
+    expect(science.articles.map(article => article.source.name)).toEqual(["Science Weekly", "Science Weekly"]);
+
+    const us = await provider.fetchTopHeadlines({ country: "us" });
+    expect(us.totalResults).toBe(3);
+    expect(us.articles.every(article => article.source.name === "Tech Daily")).toBe(true);
+  });
+
+  it("searches across feeds, ignoring category and country", async () => {
+    const provider = new RssFeedProvider(feeds);
+
+    const results = await provider.searchEverything({ q: "accelerator OR exoplanet", category: "science" });
+    expect(results.articles.map(article => article.url)).toEqual([
+      "https://techdaily.example.com/2025/10/06/ai-accelerator",
+      "https://scienceweekly.example.com/exoplanet-water",
+    ]);
+
+    const titleOnly = await provider.searchEverything({ q: "stable", searchIn: ["title"] });
+    expect(titleOnly.totalResults).toBe(0);
+
+    const dated = await provider.searchEverything({ from: "2025-10-05T12:00:00Z", to: "2025-10-06T11:00:00Z" });
+    expect(dated.articles.map(article => article.url)).toEqual(["https://scienceweekly.example.com/exoplanet-water"]);
+  });
+
+  it("sorts searches by relevancy when asked", async () => {
+    const results = await new RssFeedProvider(feeds).searchEverything({ q: "database", sortBy: "relevancy" });
+    expect(results.articles[0].url).toBe("https://techdaily.example.com/2025/10/05/database-1-0");
+  });
+
+  it("pages results", async () => {
+    const provider = new RssFeedProvider(feeds);
+
+    const first = await provider.fetchTopHeadlines({ pageSize: 2, page: 1 });
+    const third = await provider.fetchTopHeadlines({ pageSize: 2, page: 3 });
+    const beyond = await provider.fetchTopHeadlines({ pageSize: 2, page: 4 });
+
+    expect(first.totalResults).toBe(5);
+    expect(first.articles).toHaveLength(2);
+    expect(third.articles.map(article => article.publishedAt)).toEqual(["2025-10-04T16:45:00.000Z"]);
+    expect(beyond.articles).toEqual([]);
+  });
+
+  it("lists sources with their feed's category and country", async () => {
+    const { sources } = await new RssFeedProvider(feeds).getSources(undefined, "technology");
+    expect(sources).toEqual([{ id: "tech-daily", name: "Tech Daily", category: "technology", country: "us" }]);
+  });
+
+  it("reuses a fetched feed until the TTL expires", async () => {
+    const provider = new RssFeedProvider(feeds, 60_000);
+    await provider.fetchTopHeadlines();
+    await provider.fetchTopHeadlines({ page: 2, pageSize: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const uncached = new RssFeedProvider(feeds, 0);
+    await uncached.fetchTopHeadlines();
+    await uncached.fetchTopHeadlines();
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+
+  it("keeps serving the other feeds when one fails", async () => {
+    const provider = new RssFeedProvider([...feeds, { url: "https://broken.example.com/rss" }]);
+    const response = await provider.fetchTopHeadlines();
+    expect(response.totalResults).toBe(5);
+  });
+
+  it("fails when every feed fails", async () => {
+    const provider = new RssFeedProvider([{ url: "https://broken.example.com/rss" }]);
+    await expect(provider.fetchTopHeadlines()).rejects.toThrow("All configured RSS feeds failed to load");
+  });
+});
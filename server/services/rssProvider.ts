@@ -0,0 +1,353 @@
+import { XMLParser } from "fast-xml-parser";
+import { type NewsFilters } from "@shared/schema";
+import { matchesQuery, queryRelevance, paginateArticles, toIsoBound } from "./newsProvider";
+import type { NewsProvider, NewsAPIArticle, NewsAPIResponse, NewsAPISource } from "./newsProvider";
+
+export interface FeedConfig {
+  url: string;
+  // Overrides the channel/feed title as the article source name
+  name?: string;
+  category?: string;
+  country?: string;
+}
+
+interface FeedArticle extends NewsAPIArticle {
+  category?: string;
+  country?: string;
+}
+
+// The parts of a parsed feed read below, as fast-xml-parser returns them; any of them may be missing
+interface XmlElement {
+  "#text"?: string | number;
+  "@_href"?: string;
+  "@_rel"?: string;
+  "@_type"?: string;
+  "@_url"?: string;
+}
+
+type XmlValue = string | number | XmlElement;
+
+interface MediaFields {
+  enclosure?: XmlElement | XmlElement[];
+  "media:content"?: XmlElement[];
+  "media:thumbnail"?: XmlElement[];
+}
+
+interface RssItem extends MediaFields {
+  title?: XmlValue;
+  link?: XmlValue[];
+  guid?: XmlValue;
+  description?: XmlValue;
+  "content:encoded"?: XmlValue;
+  author?: XmlValue;
+  "dc:creator"?: XmlValue;
+  pubDate?: XmlValue;
+  "dc:date"?: XmlValue;
+}
+
+interface RssChannel {
+  title?: XmlValue;
+  item?: RssItem[];
+}
+
+interface AtomEntry extends MediaFields {
+  title?: XmlValue;
+  link?: XmlElement[];
+  id?: XmlValue;
+  author?: { name?: XmlValue } | Array<{ name?: XmlValue }>;
+  summary?: XmlValue;
+  content?: XmlValue;
+  published?: XmlValue;
+  updated?: XmlValue;
+}
+
+interface AtomFeed {
+  title?: XmlValue;
+  entry?: AtomEntry[];
+}
+
+interface FeedDocument {
+  rss?: { channel?: RssChannel | RssChannel[] };
+  feed?: AtomFeed;
+}
+
+const FEED_TIMEOUT_MS = 10_000;
+// Feeds change slowly, so paging and filter changes reuse a recent fetch
+const DEFAULT_FEED_TTL_SECONDS = 120;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  // Feeds with a single item/entry should still produce arrays
+  isArray: (name) => ["item", "entry", "link", "category", "media:content", "media:thumbnail"].includes(name),
+});
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Text nodes come back as strings, numbers or { "#text": ... } objects depending on attributes
+function text(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string" || typeof value === "number") return String(value).trim() || null;
+  if (typeof value === "object" && "#text" in (value as Record<string, unknown>)) {
+    return text((value as Record<string, unknown>)["#text"]);
+  }
+  return null;
+}
+
+function stripHtml(html: string | null): string | null {
+  if (!html) return null;
+  const stripped = html
+    .replace(/<script[\s\S]*?<\/script>/gi, " ")
+    .replace(/<style[\s\S]*?<\/style>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+  return stripped || null;
+}
+
+function toIsoDate(value: string | null): string {
+  const date = value ? new Date(value) : new Date(NaN);
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+function firstImage(item: MediaFields): string | null {
+  const enclosure = asArray(item.enclosure).find(
+    (e) => typeof e?.["@_type"] === "string" && e["@_type"].startsWith("image/"),
+  );
+  const candidates = [
+    enclosure?.["@_url"],
+    ...asArray(item["media:content"]).map(m => m?.["@_url"]),
+    ...asArray(item["media:thumbnail"]).map(m => m?.["@_url"]),
+  ];
+  return candidates.find((url): url is string => typeof url === "string" && url.length > 0) ?? null;
+}
+
+function parseRssItems(channel: RssChannel, source: NewsAPISource): NewsAPIArticle[] {
+  return asArray(channel.item).map(item => {
+    const link = text(asArray(item.link)[0]) ?? text(item.guid) ?? "";
+    return {
+      source,
+      author: text(item["dc:creator"]) ?? text(item.author),
+      title: stripHtml(text(item.title)) ?? "Untitled",
+      description: stripHtml(text(item.description)),
+      url: link,
+      urlToImage: firstImage(item),
+      publishedAt: toIsoDate(text(item.pubDate) ?? text(item["dc:date"])),
+      content: stripHtml(text(item["content:encoded"])) ?? stripHtml(text(item.description)),
+    };
+  });
+}
+
+function parseAtomEntries(feed: AtomFeed, source: NewsAPISource): NewsAPIArticle[] {
+  return asArray(feed.entry).map(entry => {
+    const links = asArray(entry.link);
+    const alternate = links.find(l => !l?.["@_rel"] || l["@_rel"] === "alternate") ?? links[0];
+    const image = links.find(
+      l => l?.["@_rel"] === "enclosure" && String(l?.["@_type"] ?? "").startsWith("image/"),
+    );
+    return {
+      source,
+      author: text(asArray(entry.author)[0]?.name),
+      title: stripHtml(text(entry.title)) ?? "Untitled",
+      description: stripHtml(text(entry.summary)),
+      url: alternate?.["@_href"] ?? text(entry.id) ?? "",
+      urlToImage: image?.["@_href"] ?? firstImage(entry),
+      publishedAt: toIsoDate(text(entry.published) ?? text(entry.updated)),
+      content: stripHtml(text(entry.content)) ?? stripHtml(text(entry.summary)),
+    };
+  });
+}
+
+/**
+ * Parse an RSS 2.0 or Atom document into NewsAPI-shaped articles. Items
+ * without a link are dropped since every stored article is keyed by URL.
+ */
+export function parseFeed(xml: string, feed: FeedConfig): NewsAPIArticle[] {
+  const document: FeedDocument = parser.parse(xml);
+
+  let articles: NewsAPIArticle[];
+  if (document.rss?.channel) {
+    const channel = asArray(document.rss.channel)[0];
+    const name = feed.name ?? text(channel.title) ?? feed.url;
+    articles = parseRssItems(channel, { id: slugify(name), name });
+  } else if (document.feed) {
+    const name = feed.name ?? text(document.feed.title) ?? feed.url;
+    articles = parseAtomEntries(document.feed, { id: slugify(name), name });
+  } else {
+    throw new Error(`Unrecognised feed format at ${feed.url}`);
+  }
+
+  return articles.filter(article => article.url);
+}
+
+const FEED_OPTIONS = ["name", "category", "country"] as const;
+
+/**
+ * Parse the RSS_FEEDS environment variable: a comma-separated list of feed
+ * URLs. Each URL may be preceded by options, as `key=value` pairs joined by
+ * ";" and ended by "|", setting the source name, category and country:
+ * "name=Tech Daily;category=technology;country=us|https://example.com/tech.xml".
+ * A bare category prefix ("technology=https://example.com/tech.xml") is
+ * also accepted.
+ */
+export function parseFeedList(value: string): FeedConfig[] {
+  return value
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry): FeedConfig => {
+      const separator = entry.indexOf("|");
+      if (separator !== -1) {
+        const feed: FeedConfig = { url: entry.slice(separator + 1).trim() };
+        for (const option of entry.slice(0, separator).split(";")) {
+          const [key, ...rest] = option.split("=");
+          const name = key.trim().toLowerCase();
+          const optionValue = rest.join("=").trim();
+          if (!(FEED_OPTIONS as readonly string[]).includes(name) || !optionValue) {
+            throw new Error(`Invalid RSS_FEEDS option "${option}" for ${feed.url}`);
+          }
+          feed[name as typeof FEED_OPTIONS[number]] = name === "name" ? optionValue : optionValue.toLowerCase();
+        }
+        return feed;
+      }
+
+      const match = entry.match(/^([a-z-]+)=(.+)$/i);
+      return match ? { category: match[1].toLowerCase(), url: match[2] } : { url: entry };
+    });
+}
+
+function stripFeedFields({ category: _category, country: _country, ...article }: FeedArticle): NewsAPIArticle {
+  return article;
+}
+
+/**
+ * Serves articles from RSS 2.0 and Atom feeds. Each feed is fetched at most
+ * once per `ttlMs` (concurrent requests share the fetch), and a feed that
+ * doesn't answer within FEED_TIMEOUT_MS counts as failed.
+ */
+export class RssFeedProvider implements NewsProvider {
+  readonly name = 'rss';
+  private cache = new Map<string, { loadedAt: number; articles: Promise<FeedArticle[]> }>();
+
+  constructor(
+    private feeds: FeedConfig[],
+    private ttlMs: number = (Number(process.env.RSS_CACHE_TTL_SECONDS) || DEFAULT_FEED_TTL_SECONDS) * 1000,
+  ) {
+    if (feeds.length === 0) {
+      throw new Error('RssFeedProvider requires at least one feed');
+    }
+  }
+
+  private loadFeed(feed: FeedConfig): Promise<FeedArticle[]> {
+    const cached = this.cache.get(feed.url);
+    if (cached && Date.now() - cached.loadedAt < this.ttlMs) {
+      return cached.articles;
+    }
+
+    const articles = this.fetchFeed(feed);
+    this.cache.set(feed.url, { loadedAt: Date.now(), articles });
+    // A failure is not cached, so the next request tries the feed again
+    articles.catch(() => {
+      if (this.cache.get(feed.url)?.articles === articles) this.cache.delete(feed.url);
+    });
+    return articles;
+  }
+
+  private async fetchFeed(feed: FeedConfig): Promise<FeedArticle[]> {
+    const response = await fetch(feed.url, {
+      headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8' },
+      signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Feed error (${response.status}) for ${feed.url}`);
+    }
+
+    return parseFeed(await response.text(), feed).map(article => ({
+      ...article,
+      category: feed.category,
+      country: feed.country,
+    }));
+  }
+
+  // One unreachable feed should not take the others down with it
+  private async loadAll(): Promise<FeedArticle[]> {
+    const results = await Promise.allSettled(this.feeds.map(feed => this.loadFeed(feed)));
+    const articles: FeedArticle[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        articles.push(...result.value);
+      } else {
+        console.error(`Failed to load feed ${this.feeds[index].url}:`, result.reason);
+      }
+    });
+    if (articles.length === 0 && results.every(result => result.status === "rejected")) {
+      throw new Error('All configured RSS feeds failed to load');
+    }
+    return articles;
+  }
+
+  private applyFilters(articles: FeedArticle[], filters: NewsFilters): FeedArticle[] {
+    return articles.filter(article => {
+      if (filters.category && article.category && article.category !== filters.category) return false;
+      if (filters.country && article.country && article.country !== filters.country) return false;
+      if (filters.sources && filters.sources.length > 0 && !filters.sources.includes(article.source.id ?? "")) return false;
+      if (filters.language && article.source.language && article.source.language !== filters.language) return false;
+      if (filters.q && !matchesQuery(article, filters.q, filters.searchIn)) return false;
+      return true;
+    });
+  }
+
+  async fetchTopHeadlines(filters: NewsFilters = {}): Promise<NewsAPIResponse> {
+    const articles = this.applyFilters(await this.loadAll(), filters)
+      .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+    return paginateArticles(articles.map(stripFeedFields), filters);
+  }
+
+  async searchEverything(filters: NewsFilters = {}): Promise<NewsAPIResponse> {
+    const from = toIsoBound(filters.from);
+    const to = toIsoBound(filters.to);
+
+    let articles = this.applyFilters(await this.loadAll(), { ...filters, category: undefined, country: undefined })
+      .filter(article => (!from || article.publishedAt >= from) && (!to || article.publishedAt <= to));
+
+    if (filters.sortBy === "relevancy" && filters.q) {
+      const q = filters.q;
+      articles = articles.sort((a, b) => queryRelevance(b, q) - queryRelevance(a, q));
+    } else {
+      articles = articles.sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+    }
+
+    return paginateArticles(articles.map(stripFeedFields), filters);
+  }
+
+  async getSources(country?: string, category?: string): Promise<{ sources: NewsAPISource[] }> {
+    const articles = await this.loadAll();
+    const sources = new Map<string, NewsAPISource>();
+
+    for (const article of articles) {
+      if (country && article.country && article.country !== country) continue;
+      if (category && article.category && article.category !== category) continue;
+      const id = article.source.id ?? slugify(article.source.name);
+      if (!sources.has(id)) {
+        sources.set(id, { ...article.source, category: article.category, country: article.country });
+      }
+    }
+
+    return { sources: Array.from(sources.values()) };
+  }
+}
@@ -0,0 +1,59 @@
+import type { SentimentResult } from "./summarizer";
+
+// Small news-oriented subset of the AFINN word list, scored -3 (very negative) to 3 (very positive)
+const LEXICON: Record<string, number> = {
+  // Positive
+  achieve: 2, achieved: 2, advance: 1, advances: 1, agreement: 1, award: 2, awarded: 2,
+  benefit: 2, benefits: 2, best: 3, boost: 2, boosted: 2, breakthrough: 3, celebrate: 3,
+  celebrated: 3, champion: 2, cure: 2, deal: 1, delight: 3, efficient: 2, encouraging: 2,
+  expand: 1, expands: 1, gain: 2, gains: 2, good: 3, great: 3, grow: 1, growth: 2,
+  happy: 3, help: 2, helps: 2, hope: 2, improve: 2, improved: 2, improves: 2, innovative: 2,
+  launch: 1, milestone: 2, peace: 2, praise: 3, praised: 3, progress: 2, promising: 2,
+  recover: 2, recovery: 2, relief: 2, rescue: 2, rescued: 2, rise: 1, rises: 1, safe: 1,
+  save: 2, saved: 2, strong: 2, success: 2, successful: 3, support: 2, surge: 1, thrive: 2,
+  top: 2, triumph: 3, upbeat: 2, victory: 3, welcome: 2, win: 3, wins: 3, won: 3,
+  // Negative
+  abuse: -3, accident: -2, accused: -2, arrest: -2, arrested: -3, attack: -1, attacks: -1,
+  ban: -2, banned: -2, collapse: -2, collapsed: -2, concern: -1, concerns: -1, conflict: -2,
+  crash: -2, crisis: -3, criticism: -2, criticized: -2, cut: -1, cuts: -1, damage: -3,
+  danger: -2, dead: -3, death: -2, deaths: -2, decline: -1, delay: -1, delayed: -1,
+  disaster: -2, dispute: -2, drop: -1, fail: -2, failed: -2, failure: -2, fall: -1, falls: -1,
+  fear: -2, fears: -2, fire: -2, flood: -2, fraud: -3, injured: -2, kill: -3, killed: -3,
+  lawsuit: -2, layoffs: -2, loss: -3, losses: -3, outage: -2, plunge: -2, protest: -2,
+  recall: -2, recession: -2, risk: -2, risks: -2, scandal: -3, shortage: -2, slump: -2,
+  strike: -1, threat: -2, threats: -2, violence: -3, war: -2, warn: -2, warning: -3, worst: -3,
+};
+
+const NEGATIONS = new Set(["not", "no", "never", "without", "isn't", "wasn't", "don't", "doesn't", "didn't", "won't"]);
+
+// Hits needed before the analyzer is fully confident in its reading
+const CONFIDENT_HITS = 5;
+
+/**
+ * Model-free sentiment: averages lexicon scores over the words it knows,
+ * flipping a word preceded by a negation ("not good"), and maps the average
+ * onto the same 1-5 rating the LLM analyzers return. Text with no known
+ * words is neutral with zero confidence.
+ */
+export function analyzeLexiconSentiment(text: string): SentimentResult {
+  const words = text.toLowerCase().match(/[a-z']+/g) ?? [];
+  let total = 0;
+  let hits = 0;
+
+  words.forEach((word, index) => {
+    const score = LEXICON[word];
+    if (score === undefined) return;
+    total += index > 0 && NEGATIONS.has(words[index - 1]) ? -score : score;
+    hits++;
+  });
+
+  if (hits === 0) {
+    return { rating: 3, confidence: 0 };
+  }
+
+  const average = Math.max(-3, Math.min(3, total / hits));
+  return {
+    rating: Math.max(1, Math.min(5, Math.round(3 + (average * 2) / 3))),
+    confidence: Math.min(1, hits / CONFIDENT_HITS),
+  };
+}
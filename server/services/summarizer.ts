@@ -0,0 +1,183 @@
+import { type Article, type SummarizeRequest, type SentimentLabel } from "@shared/schema";
+
+export type SummaryLength = "short" | "medium" | "long";
+
+export interface SourceLink {
+  title: string;
+  url: string;
+  source: string;
+}
+
+export interface TopicArticle {
+  title: string;
+  content: string | null;
+  description?: string | null;
+  url: string;
+  source: Article["source"];
+}
+
+// Which backend actually produced a summary: a summarizer name, e.g. "gemini" or "extractive"
+export type SummaryMethod = string;
+
+export interface ArticleSummary {
+  summary: string;
+  method: SummaryMethod;
+}
+
+// A run of summary text followed by the articles it cites
+export interface CitedSegment {
+  text: string;
+  // Indices into sourceLinks (0-based, unlike the 1-based [n] markers in the text)
+  citations: number[];
+}
+
+export interface TopicSummaryResult {
+  // Summary text with validated [n] citation markers
+  summary: string;
+  // The same text split at each citation, for rendering citations as links
+  segments: CitedSegment[];
+  sourceLinks: SourceLink[];
+  method: SummaryMethod;
+}
+
+export interface TopicSummaryOptions {
+  // Called with each piece of summary text as the backend produces it
+  onToken?: (text: string) => void;
+  // Called when the text streamed so far is discarded and the summary starts over
+  onReset?: () => void;
+  signal?: AbortSignal;
+}
+
+export interface SentimentResult {
+  // 1 (very negative) to 5 (very positive)
+  rating: number;
+  confidence: number;
+}
+
+/**
+ * A backend that turns articles into summaries. Model-backed implementations
+ * throw when the model fails; createSummarizer wraps them in a
+ * FallbackSummarizer so callers always get an extractive result instead.
+ */
+export interface Summarizer {
+  readonly name: string;
+  // Model behind the backend; part of the summary cache key so switching models never serves stale output
+  readonly model: string;
+  summarizeArticle(title: string, content: string, summaryLength?: SummaryLength): Promise<ArticleSummary>;
+  summarizeArticles(request: SummarizeRequest): Promise<ArticleSummary[]>;
+  analyzeSentiment(text: string): Promise<SentimentResult>;
+  // The resolved summary is authoritative; streamed tokens are only a preview of it
+  generateTopicSummary(topic: string, articles: TopicArticle[], options?: TopicSummaryOptions): Promise<TopicSummaryResult>;
+}
+
+// Prompts shared by every LLM-backed summarizer so backends produce comparable output.
+// Bump PROMPT_VERSION whenever a prompt changes: it is part of the summary
+// cache key, and entries from older versions are pruned at startup.
+export const PROMPT_VERSION = 2;
+
+export const lengthInstructions: Record<SummaryLength, string> = {
+  short: "Summarize in 1-2 concise sentences",
+  medium: "Summarize in 3-4 sentences with key details",
+  long: "Summarize in 5-6 sentences with comprehensive details"
+};
+
+export function buildArticlePrompt(title: string, content: string, summaryLength: SummaryLength): string {
+  return `${lengthInstructions[summaryLength]} the following news article while maintaining the key points and important information:
+
+Title: ${title}
+Content: ${content || "No content available"}
+
+Please provide a clear, informative summary that captures the essence of the article.`;
+}
+
+export const SENTIMENT_SYSTEM_PROMPT = `You are a sentiment analysis expert.
+Analyze the sentiment of the text and provide a rating
+from 1 to 5 stars and a confidence score between 0 and 1.
+Respond with JSON in this format:
+{'rating': number, 'confidence': number}`;
+
+export function buildTopicPrompt(topic: string, articles: TopicArticle[]): string {
+  const articleTexts = articles.map((article, index) =>
+    `Article ${index + 1}: ${article.title}
+Source: ${article.source?.name || 'Unknown'}
+Content: ${article.content || article.description || 'No content available'}
+URL: ${article.url}
+---`
+  ).join('\n\n');
+
+  return `You are a news analyst. Based on the following articles about "${topic}", provide a comprehensive summary that:
+
+1. Gives an overview of the current situation regarding "${topic}"
+2. Highlights key developments, facts, and trends
+3. Mentions different perspectives or viewpoints if present
+4. Organizes information in a clear, informative manner
+
+Here are the articles:
+
+${articleTexts}
+
+Please provide a well-structured summary that captures the essence of what's happening with "${topic}" based on these sources. Make it informative and comprehensive while being concise.
+
+End every sentence or bullet point with the numbers of the articles it is based on in square brackets, for example [1] or [2][4]. Only cite article numbers listed above, and do not add a separate list of sources.`;
+}
+
+// Extract source links for deep dive reading
+export function toSourceLinks(articles: TopicArticle[]): SourceLink[] {
+  return articles.map(article => ({
+    title: article.title,
+    url: article.url,
+    source: article.source?.name || 'Unknown Source'
+  }));
+}
+
+// One or more adjacent markers such as "[2]", "[1][3]" or "[1, 3]", with any space before them
+const CITATION_GROUP = /\s*((?:\[\d+(?:\s*,\s*\d+)*\])+)/g;
+
+/**
+ * Rewrite citation markers so they only reference articles 1..sourceCount,
+ * once each, in "[1][3]" form. Groups left with no valid citation are removed.
+ */
+export function validateCitations(text: string, sourceCount: number): string {
+  return text.replace(CITATION_GROUP, (_match, group: string) => {
+    const numbers = Array.from(new Set((group.match(/\d+/g) ?? []).map(Number)))
+      .filter(n => n >= 1 && n <= sourceCount);
+    return numbers.map(n => `[${n}]`).join("");
+  });
+}
+
+// Split validated text into segments, each ending where its citation markers were
+export function toCitedSegments(text: string): CitedSegment[] {
+  const segments: CitedSegment[] = [];
+  let last = 0;
+
+  for (const match of Array.from(text.matchAll(/(?:\[\d+\])+/g))) {
+    segments.push({
+      text: text.slice(last, match.index),
+      citations: (match[0].match(/\d+/g) ?? []).map(n => Number(n) - 1),
+    });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), citations: [] });
+  }
+
+  return segments;
+}
+
+export function toTopicSummaryResult(text: string, articles: TopicArticle[], method: SummaryMethod): TopicSummaryResult {
+  const summary = validateCitations(text.trim(), articles.length);
+  return { summary, segments: toCitedSegments(summary), sourceLinks: toSourceLinks(articles), method };
+}
+
+export function sentimentLabel(rating: number): SentimentLabel {
+  if (rating <= 2) return "negative";
+  if (rating >= 4) return "positive";
+  return "neutral";
+}
+
+export function clampSentiment(result: { rating: number; confidence: number }): SentimentResult {
+  return {
+    rating: Math.max(1, Math.min(5, Math.round(result.rating))),
+    confidence: Math.max(0, Math.min(1, result.confidence)),
+  };
+}
@@ -0,0 +1,38 @@
+import type { Summarizer } from "./summarizer";
+import { GeminiService } from "./geminiService";
+import { OpenAICompatibleService } from "./openaiService";
+import { ExtractiveSummarizer, FallbackSummarizer } from "./extractiveSummarizer";
+
+/**
+ * Build the summarizer configured by the environment. SUMMARIZER picks one of
+ * "gemini", "openai" or "extractive"; when unset, Gemini is used if
+ * GEMINI_API_KEY is present, then an OpenAI-compatible endpoint if
+ * OPENAI_API_KEY/OPENAI_BASE_URL is, and finally the model-free extractive
+ * summarizer so summaries always work. Model-backed summarizers fall back to
+ * the extractive one whenever a call fails.
+ */
+export function createSummarizer(): Summarizer {
+  const configured = process.env.SUMMARIZER?.trim().toLowerCase();
+
+  switch (configured) {
+    case 'gemini':
+      return new FallbackSummarizer(new GeminiService());
+    case 'openai':
+      return new FallbackSummarizer(new OpenAICompatibleService());
+    case 'extractive':
+      return new ExtractiveSummarizer();
+    case undefined:
+    case '':
+      break;
+    default:
+      throw new Error(`Unknown summarizer "${configured}" in SUMMARIZER`);
+  }
+
+  if (process.env.GEMINI_API_KEY) {
+    return new FallbackSummarizer(new GeminiService());
+  }
+  if (process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL) {
+    return new FallbackSummarizer(new OpenAICompatibleService());
+  }
+  return new ExtractiveSummarizer();
+}
@@ -0,0 +1,211 @@
+import { createHash } from "crypto";
+import { type SummarizeRequest } from "@shared/schema";
+import type { IStorage } from "../storage";
+import {
+  type Summarizer,
+  type SummaryLength,
+  type ArticleSummary,
+  type SentimentResult,
+  type SourceLink,
+  type TopicArticle,
+  type TopicSummaryResult,
+  type TopicSummaryOptions,
+  PROMPT_VERSION,
+  toCitedSegments,
+} from "./summarizer";
+
+const DEFAULT_CAPACITY = 500;
+
+type SummaryStore = Pick<IStorage, "getCachedSummary" | "saveCachedSummary" | "pruneCachedSummaries">;
+
+interface CachedSummary {
+  summary: string;
+  method: string;
+  sourceLinks?: SourceLink[];
+}
+
+export interface SummaryCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  // Hits answered by the persistent store rather than the in-memory LRU
+  storeHits: number;
+  size: number;
+  capacity: number;
+  promptVersion: number;
+  model: string;
+}
+
+// Hash the inputs rather than storing them so keys stay a fixed size however long the article
+function cacheKey(parts: unknown[]): string {
+  return createHash("sha256").update(JSON.stringify([PROMPT_VERSION, ...parts])).digest("hex");
+}
+
+/**
+ * Summarizer decorator that remembers results keyed by a hash of the input
+ * text, summary length, model and PROMPT_VERSION. Lookups go to an in-memory
+ * LRU first, then the store (the summary_cache table under DbStorage).
+ *
+ * Results the wrapped summarizer only produced by degrading to the extractive
+ * fallback are returned but not cached, so the model is tried again next time.
+ */
+export class CachingSummarizer implements Summarizer {
+  readonly name: string;
+  readonly model: string;
+  private entries = new Map<string, CachedSummary>();
+  private hits = 0;
+  private misses = 0;
+  private storeHits = 0;
+
+  constructor(
+    private inner: Summarizer,
+    private store?: SummaryStore,
+    private capacity: number = Number(process.env.SUMMARY_CACHE_SIZE) || DEFAULT_CAPACITY,
+  ) {
+    this.name = inner.name;
+    this.model = inner.model;
+
+    store?.pruneCachedSummaries(PROMPT_VERSION)
+      .then(removed => {
+        if (removed > 0) console.log(`Pruned ${removed} cached summaries from older prompt versions`);
+      })
+      .catch(error => console.error("Error pruning summary cache:", error));
+  }
+
+  getStats(): SummaryCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      storeHits: this.storeHits,
+      size: this.entries.size,
+      capacity: this.capacity,
+      promptVersion: PROMPT_VERSION,
+      model: this.model,
+    };
+  }
+
+  private remember(key: string, value: CachedSummary): void {
+    // Map keeps insertion order, so re-inserting moves the key to the most recent end
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  private async lookup(key: string): Promise<CachedSummary | undefined> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.hits++;
+      this.remember(key, cached);
+      return cached;
+    }
+
+    try {
+      const stored = await this.store?.getCachedSummary(key);
+      if (stored) {
+        const value: CachedSummary = {
+          summary: stored.summary,
+          method: stored.method,
+          sourceLinks: (stored.sourceLinks as SourceLink[] | null) ?? undefined,
+        };
+        this.hits++;
+        this.storeHits++;
+        this.remember(key, value);
+        return value;
+      }
+    } catch (error) {
+      console.error("Error reading summary cache:", error);
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  private async save(key: string, value: CachedSummary): Promise<void> {
+    if (value.method !== this.inner.name) return;
+
+    this.remember(key, value);
+    try {
+      await this.store?.saveCachedSummary({
+        key,
+        summary: value.summary,
+        method: value.method,
+        sourceLinks: value.sourceLinks ?? null,
+        promptVersion: PROMPT_VERSION,
+      });
+    } catch (error) {
+      console.error("Error writing summary cache:", error);
+    }
+  }
+
+  private articleKey(title: string, content: string, summaryLength: SummaryLength): string {
+    return cacheKey(["article", this.model, summaryLength, title, content]);
+  }
+
+  async summarizeArticle(title: string, content: string, summaryLength: SummaryLength = "medium"): Promise<ArticleSummary> {
+    const key = this.articleKey(title, content, summaryLength);
+    const cached = await this.lookup(key);
+    if (cached) {
+      return { summary: cached.summary, method: cached.method };
+    }
+
+    const result = await this.inner.summarizeArticle(title, content, summaryLength);
+    await this.save(key, result);
+    return result;
+  }
+
+  async summarizeArticles(request: SummarizeRequest): Promise<ArticleSummary[]> {
+    const { articles, summaryLength = "medium" } = request;
+    const keys = articles.map(article =>
+      this.articleKey(article.title, article.content || article.description || "", summaryLength)
+    );
+    const results: (ArticleSummary | undefined)[] = await Promise.all(keys.map(key => this.lookup(key)));
+
+    // Only the misses go to the wrapped summarizer, in one batch so it keeps its own pacing
+    const missing = results.flatMap((result, index) => (result ? [] : [index]));
+    if (missing.length > 0) {
+      const fresh = await this.inner.summarizeArticles({
+        articles: missing.map(index => articles[index]),
+        summaryLength,
+      });
+      await Promise.all(missing.map(async (index, i) => {
+        results[index] = fresh[i];
+        await this.save(keys[index], fresh[i]);
+      }));
+    }
+
+    return results.map(result => ({ summary: result!.summary, method: result!.method }));
+  }
+
+  // Sentiment is cheap relative to summaries and not asked for repeatedly, so it is not cached
+  async analyzeSentiment(text: string): Promise<SentimentResult> {
+    return this.inner.analyzeSentiment(text);
+  }
+
+  async generateTopicSummary(topic: string, articles: TopicArticle[], options: TopicSummaryOptions = {}): Promise<TopicSummaryResult> {
+    const key = cacheKey([
+      "topic",
+      this.model,
+      topic,
+      articles.map(article => [article.title, article.content || article.description || "", article.url]),
+    ]);
+    const cached = await this.lookup(key);
+    if (cached) {
+      options.onToken?.(cached.summary);
+      return {
+        summary: cached.summary,
+        segments: toCitedSegments(cached.summary),
+        sourceLinks: cached.sourceLinks ?? [],
+        method: cached.method,
+      };
+    }
+
+    const result = await this.inner.generateTopicSummary(topic, articles, options);
+    await this.save(key, result);
+    return result;
+  }
+}
@@ -0,0 +1,214 @@
+import { randomUUID } from "crypto";
+import type { IStorage } from "../storage";
+import type { Summarizer, SummaryLength } from "./summarizer";
+import { articleText, type ArticleExtractor } from "./articleExtractor";
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+// Finished jobs stay readable this long so clients can pick up the last progress
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export type SummaryJobStatus = "queued" | "running" | "completed";
+export type SummaryJobItemStatus = "pending" | "running" | "succeeded" | "failed";
+
+export interface SummaryJobItem {
+  articleId: string;
+  status: SummaryJobItemStatus;
+  attempts: number;
+  summary?: string;
+  method?: string;
+  // Last failure; kept on a pending item that is waiting to be retried
+  error?: string;
+}
+
+export interface SummaryJob {
+  id: string;
+  status: SummaryJobStatus;
+  summaryLength: SummaryLength;
+  items: SummaryJobItem[];
+  createdAt: Date;
+  finishedAt?: Date;
+}
+
+export interface SummaryJobProgress extends SummaryJob {
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface SummaryJobQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  // Delay before the first retry; doubles on every further attempt
+  retryDelayMs: number;
+}
+
+type ArticleStore = Pick<IStorage, "getArticle" | "updateArticle">;
+
+interface Task {
+  job: SummaryJob;
+  item: SummaryJobItem;
+}
+
+/**
+ * In-process queue that summarizes stored articles in the background. Work
+ * from every job shares one pool of `concurrency` workers; failed articles
+ * are retried with exponential backoff, and each summary is written back to
+ * the article via updateArticle as soon as it is ready.
+ *
+ * A result the summarizer only produced by falling back to the extractive
+ * summarizer also counts as a failed attempt, so the model gets retried; the
+ * fallback summary is kept if the last attempt degrades too.
+ */
+export class SummaryJobQueue {
+  private jobs = new Map<string, SummaryJob>();
+  private pending: Task[] = [];
+  private active = 0;
+  private options: SummaryJobQueueOptions;
+
+  constructor(
+    private summarizer: Summarizer,
+    private store: ArticleStore,
+    // Summarizes the full article text when given, rather than the provider's excerpt
+    private extractor?: Pick<ArticleExtractor, "withFullContent">,
+    options: Partial<SummaryJobQueueOptions> = {},
+  ) {
+    this.options = {
+      concurrency: Number(process.env.SUMMARY_JOB_CONCURRENCY) || DEFAULT_CONCURRENCY,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      retryDelayMs: DEFAULT_RETRY_DELAY_MS,
+      ...options,
+    };
+  }
+
+  createJob(articleIds: string[], summaryLength: SummaryLength = "medium"): SummaryJob {
+    this.pruneFinishedJobs();
+
+    const job: SummaryJob = {
+      id: randomUUID(),
+      status: "queued",
+      summaryLength,
+      items: Array.from(new Set(articleIds)).map(articleId => ({
+        articleId,
+        status: "pending",
+        attempts: 0,
+      })),
+      createdAt: new Date(),
+    };
+    this.jobs.set(job.id, job);
+    // A job with nothing to do is finished from the start, so clients polling it stop
+    this.updateJobStatus(job);
+
+    for (const item of job.items) {
+      this.pending.push({ job, item });
+    }
+    this.drain();
+
+    return job;
+  }
+
+  getJob(id: string): SummaryJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  // Whether any job still has the article waiting or being summarized
+  isQueued(articleId: string): boolean {
+    return Array.from(this.jobs.values()).some(job =>
+      job.items.some(item => item.articleId === articleId && (item.status === "pending" || item.status === "running")),
+    );
+  }
+
+  getProgress(job: SummaryJob): SummaryJobProgress {
+    return {
+      ...job,
+      total: job.items.length,
+      succeeded: job.items.filter(item => item.status === "succeeded").length,
+      failed: job.items.filter(item => item.status === "failed").length,
+    };
+  }
+
+  private drain(): void {
+    while (this.active < this.options.concurrency && this.pending.length > 0) {
+      const task = this.pending.shift()!;
+      this.active++;
+      this.run(task).finally(() => {
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+
+  private async run(task: Task): Promise<void> {
+    const { job, item } = task;
+    job.status = "running";
+    item.status = "running";
+    item.attempts++;
+
+    try {
+      const stored = await this.store.getArticle(item.articleId);
+      if (!stored) {
+        item.status = "failed";
+        item.error = "Article not found";
+        return;
+      }
+      const article = this.extractor ? await this.extractor.withFullContent(stored) : stored;
+
+      const result = await this.summarizer.summarizeArticle(
+        article.title,
+        articleText(article),
+        job.summaryLength,
+      );
+
+      if (result.method !== this.summarizer.name && item.attempts < this.options.maxAttempts) {
+        this.retry(task, `${this.summarizer.name} was unavailable`);
+        return;
+      }
+
+      await this.store.updateArticle(article.id, { aiSummary: result.summary, summaryMethod: result.method });
+      item.status = "succeeded";
+      item.summary = result.summary;
+      item.method = result.method;
+      delete item.error;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to summarize article";
+      if (item.attempts < this.options.maxAttempts) {
+        this.retry(task, message);
+      } else {
+        console.error(`Error summarizing article ${item.articleId} in job ${job.id}:`, error);
+        item.status = "failed";
+        item.error = message;
+      }
+    } finally {
+      this.updateJobStatus(job);
+    }
+  }
+
+  private retry(task: Task, reason: string): void {
+    task.item.status = "pending";
+    task.item.error = reason;
+
+    const delay = this.options.retryDelayMs * 2 ** (task.item.attempts - 1);
+    setTimeout(() => {
+      this.pending.push(task);
+      this.drain();
+    }, delay);
+  }
+
+  private updateJobStatus(job: SummaryJob): void {
+    const finished = job.items.every(item => item.status === "succeeded" || item.status === "failed");
+    if (finished && job.status !== "completed") {
+      job.status = "completed";
+      job.finishedAt = new Date();
+    }
+  }
+
+  private pruneFinishedJobs(): void {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, job] of Array.from(this.jobs.entries())) {
+      if (job.finishedAt && job.finishedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
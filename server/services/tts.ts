@@ -0,0 +1,177 @@
+import { spawn } from "child_process";
+import OpenAI from "openai";
+
+export interface SynthesizedAudio {
+  audio: Buffer;
+  mimeType: string;
+  // File extension for the audio, without the dot
+  extension: string;
+  durationSeconds?: number;
+}
+
+/**
+ * A text-to-speech backend. Implementations throw TtsError: `unavailable`
+ * when the engine is missing or misconfigured, otherwise when a synthesis
+ * call fails.
+ */
+export interface TtsEngine {
+  readonly name: string;
+  synthesize(text: string): Promise<SynthesizedAudio>;
+}
+
+export class TtsError extends Error {
+  constructor(
+    message: string,
+    // The engine can't run at all here, as opposed to one call failing
+    readonly unavailable = false,
+  ) {
+    super(message);
+    this.name = "TtsError";
+  }
+}
+
+// Length of a PCM WAV file from its header. espeak writes to a pipe, so the
+// header's size fields are placeholders and the byte count is used instead.
+function wavDurationSeconds(audio: Buffer): number | undefined {
+  const WAV_HEADER_LENGTH = 44;
+  if (audio.length <= WAV_HEADER_LENGTH || audio.toString("ascii", 0, 4) !== "RIFF" || audio.toString("ascii", 8, 12) !== "WAVE") {
+    return undefined;
+  }
+  const byteRate = audio.readUInt32LE(28);
+  return byteRate > 0 ? Math.round((audio.length - WAV_HEADER_LENGTH) / byteRate) : undefined;
+}
+
+/**
+ * Offline synthesis with espeak-ng (or classic espeak via
+ * ESPEAK_COMMAND=espeak). Robotic, but needs no network or API key, which is
+ * why it is the default. ESPEAK_VOICE is an espeak voice such as "en-us".
+ * A run that takes longer than ESPEAK_TIMEOUT_MS is killed.
+ */
+export class EspeakEngine implements TtsEngine {
+  readonly name = "espeak";
+  private command = process.env.ESPEAK_COMMAND || "espeak-ng";
+  private voice = process.env.ESPEAK_VOICE || "en-us";
+  private timeoutMs = Number(process.env.ESPEAK_TIMEOUT_MS) || 120_000;
+  // Words per minute; espeak's default of 175 is hard to follow for news
+  private speed = Number(process.env.TTS_SPEED) || 160;
+
+  synthesize(text: string): Promise<SynthesizedAudio> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, ["-v", this.voice, "-s", String(this.speed), "--stdin", "--stdout"]);
+      const chunks: Buffer[] = [];
+      let stderr = "";
+
+      // A hung espeak would otherwise hold the request and the process forever
+      const timer = setTimeout(() => {
+        child.kill("SIGKILL");
+        reject(new TtsError(`${this.command} did not finish within ${this.timeoutMs / 1000}s and was stopped`));
+      }, this.timeoutMs);
+
+      child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+      child.stderr.on("data", (chunk: Buffer) => { stderr += chunk.toString(); });
+      child.on("error", (error: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        reject(error.code === "ENOENT"
+          ? new TtsError(`${this.command} is not installed. Install espeak-ng or set TTS_ENGINE.`, true)
+          : new TtsError(`${this.command} failed to start: ${error.message}`));
+      });
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        const audio = Buffer.concat(chunks);
+        if (code !== 0 || audio.length === 0) {
+          reject(new TtsError(`${this.command} exited with code ${code}${stderr ? `: ${stderr.trim()}` : ""}`));
+          return;
+        }
+        resolve({ audio, mimeType: "audio/wav", extension: "wav", durationSeconds: wavDurationSeconds(audio) });
+      });
+
+      // A missing binary closes stdin before "error" fires; that error is reported above
+      child.stdin.on("error", () => {});
+      child.stdin.end(text);
+    });
+  }
+}
+
+/**
+ * The OpenAI speech endpoint (or a compatible server via OPENAI_BASE_URL).
+ * TTS_MODEL and OPENAI_TTS_VOICE pick the model and voice.
+ */
+export class OpenAITtsEngine implements TtsEngine {
+  readonly name = "openai";
+  private client: OpenAI;
+  private model = process.env.TTS_MODEL || "tts-1";
+  private voice = process.env.OPENAI_TTS_VOICE || "alloy";
+  // The endpoint rejects longer input, so scripts are read in pieces and the mp3s joined
+  private static readonly MAX_INPUT_LENGTH = 4000;
+
+  constructor() {
+    const baseURL = process.env.OPENAI_BASE_URL;
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!baseURL && !apiKey) {
+      throw new TtsError("OPENAI_API_KEY or OPENAI_BASE_URL environment variable is required for TTS_ENGINE=openai", true);
+    }
+    this.client = new OpenAI({ apiKey: apiKey || "not-needed", baseURL });
+  }
+
+  async synthesize(text: string): Promise<SynthesizedAudio> {
+    const parts: Buffer[] = [];
+    for (const input of splitAtParagraphs(text, OpenAITtsEngine.MAX_INPUT_LENGTH)) {
+      try {
+        const response = await this.client.audio.speech.create({
+          model: this.model,
+          voice: this.voice,
+          input,
+          response_format: "mp3",
+        });
+        parts.push(Buffer.from(await response.arrayBuffer()));
+      } catch (error) {
+        throw new TtsError(`Speech synthesis failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    // MP3 frames are self-contained, so the pieces play back as one file
+    return { audio: Buffer.concat(parts), mimeType: "audio/mpeg", extension: "mp3" };
+  }
+}
+
+// Split between paragraphs (or, for an overlong paragraph, between words) to stay under maxLength
+function splitAtParagraphs(text: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const candidate = current ? `${current}\n\n${paragraph}` : paragraph;
+    if (candidate.length <= maxLength) {
+      current = candidate;
+      continue;
+    }
+    if (current) pieces.push(current);
+    current = paragraph;
+    while (current.length > maxLength) {
+      const cut = current.lastIndexOf(" ", maxLength);
+      const end = cut > 0 ? cut : maxLength;
+      pieces.push(current.slice(0, end));
+      current = current.slice(end).trimStart();
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Build the TTS engine configured by TTS_ENGINE: "espeak" (the default) or
+ * "openai".
+ */
+export function createTtsEngine(): TtsEngine {
+  const configured = process.env.TTS_ENGINE?.trim().toLowerCase();
+
+  switch (configured) {
+    case 'openai':
+      return new OpenAITtsEngine();
+    case 'espeak':
+    case undefined:
+    case '':
+      return new EspeakEngine();
+    default:
+      throw new Error(`Unknown TTS engine "${configured}" in TTS_ENGINE`);
+  }
+}
@@ -1,32 +1,76 @@
-import { type User, type InsertUser, type Article, type InsertArticle, type UserPreferences, type InsertUserPreferences } from "@shared/schema";
+import { type User, type InsertUser, type Article, type InsertArticle, type UserPreferences, type InsertUserPreferences, type Bookmark, type SummaryCacheEntry, type InsertSummaryCacheEntry, type Briefing, type InsertBriefing, users, articles, userPreferences, bookmarks, summaryCache, briefings } from "@shared/schema";
 import { randomUUID } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type pg from "pg";
+import { and, desc, eq, inArray, isNotNull, ne, or, sql, type SQL } from "drizzle-orm";
+import { db, pool, UNIQUE_VIOLATION, type Database } from "./db";
+import { normalizeArticleUrl } from "./utils/url";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
   // Article methods
+  getArticle(id: string): Promise<Article | undefined>;
   getArticles(filters?: { country?: string; category?: string; sources?: string[] }): Promise<Article[]>;
   createArticle(article: InsertArticle): Promise<Article>;
+  // Insert, or refresh the existing article with the same canonical URL (keeping its id and aiSummary)
+  upsertArticle(article: InsertArticle): Promise<Article>;
   updateArticle(id: string, updates: Partial<Article>): Promise<Article>;
+  // Most recently published articles that have an aiSummary
+  getSummarizedArticles(limit: number): Promise<Article[]>;
   
   // User preferences methods
   getUserPreferences(userId: string): Promise<UserPreferences | undefined>;
   createUserPreferences(prefs: InsertUserPreferences): Promise<UserPreferences>;
   updateUserPreferences(userId: string, updates: Partial<UserPreferences>): Promise<UserPreferences>;
+
+  // Bookmark methods
+  getBookmarkedArticles(userId: string): Promise<Article[]>;
+  addBookmark(userId: string, articleId: string): Promise<Bookmark>;
+  removeBookmark(userId: string, articleId: string): Promise<void>;
+
+  // Summary cache methods (persistent tier behind SummaryCache's in-memory LRU)
+  getCachedSummary(key: string): Promise<SummaryCacheEntry | undefined>;
+  saveCachedSummary(entry: InsertSummaryCacheEntry): Promise<void>;
+  // Drop entries written under any other prompt version; returns how many were removed
+  pruneCachedSummaries(promptVersion: number): Promise<number>;
+
+  // Audio briefing methods
+  getBriefing(id: string): Promise<Briefing | undefined>;
+  // Newest first
+  getBriefings(limit: number): Promise<Briefing[]>;
+  createBriefing(briefing: InsertBriefing): Promise<Briefing>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private articles: Map<string, Article>;
+  private articleIdsByUrl: Map<string, string>;
   private userPreferences: Map<string, UserPreferences>;
+  private bookmarks: Map<string, Bookmark>;
+  private briefings: Map<string, Briefing>;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.articles = new Map();
+    this.articleIdsByUrl = new Map();
     this.userPreferences = new Map();
+    this.bookmarks = new Map();
+    this.briefings = new Map();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired sessions daily
+    });
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -40,12 +84,20 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    // Mirror the unique username constraint DbStorage gets from Postgres
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw Object.assign(new Error(`Username "${insertUser.username}" already exists`), { code: UNIQUE_VIOLATION });
+    }
     const id = randomUUID();
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
 
+  async getArticle(id: string): Promise<Article | undefined> {
+    return this.articles.get(id);
+  }
+
   async getArticles(filters?: { country?: string; category?: string; sources?: string[] }): Promise<Article[]> {
     let articles = Array.from(this.articles.values());
     
@@ -59,8 +111,8 @@ export class MemStorage implements IStorage {
     
     if (filters?.sources && filters.sources.length > 0) {
       articles = articles.filter(article => {
-        const source = article.source as any;
-        return filters.sources?.includes(source?.name || source?.id);
+        const { source } = article;
+        return filters.sources?.includes(source.name || source.id || "");
       });
     }
     
@@ -69,15 +121,57 @@ export class MemStorage implements IStorage {
 
   async createArticle(insertArticle: InsertArticle): Promise<Article> {
     const id = randomUUID();
-    const article: Article = { 
-      ...insertArticle, 
+    const article: Article = {
+      title: insertArticle.title,
+      description: insertArticle.description ?? null,
+      content: insertArticle.content ?? null,
+      url: insertArticle.url,
+      canonicalUrl: normalizeArticleUrl(insertArticle.url),
+      urlToImage: insertArticle.urlToImage ?? null,
+      publishedAt: insertArticle.publishedAt,
+      source: insertArticle.source,
+      author: insertArticle.author ?? null,
+      category: insertArticle.category ?? null,
+      country: insertArticle.country ?? null,
+      aiSummary: insertArticle.aiSummary ?? null,
+      summaryMethod: insertArticle.summaryMethod ?? null,
+      sentiment: insertArticle.sentiment ?? null,
+      sentimentRating: insertArticle.sentimentRating ?? null,
+      fullContent: insertArticle.fullContent ?? null,
+      fullContentFetchedAt: insertArticle.fullContentFetchedAt ?? null,
       id,
       createdAt: new Date()
     };
     this.articles.set(id, article);
+    this.articleIdsByUrl.set(article.canonicalUrl!, id);
     return article;
   }
 
+  async upsertArticle(insertArticle: InsertArticle): Promise<Article> {
+    const existingId = this.articleIdsByUrl.get(normalizeArticleUrl(insertArticle.url));
+    const existing = existingId ? this.articles.get(existingId) : undefined;
+    if (!existing) {
+      return this.createArticle(insertArticle);
+    }
+
+    const updated: Article = {
+      ...existing,
+      title: insertArticle.title,
+      description: insertArticle.description ?? null,
+      content: insertArticle.content ?? null,
+      url: insertArticle.url,
+      urlToImage: insertArticle.urlToImage ?? null,
+      publishedAt: insertArticle.publishedAt,
+      source: insertArticle.source,
+      author: insertArticle.author ?? null,
+      category: insertArticle.category ?? existing.category,
+      country: insertArticle.country ?? existing.country,
+      aiSummary: existing.aiSummary ?? insertArticle.aiSummary ?? null,
+    };
+    this.articles.set(existing.id, updated);
+    return updated;
+  }
+
   async updateArticle(id: string, updates: Partial<Article>): Promise<Article> {
     const existing = this.articles.get(id);
     if (!existing) {
@@ -88,6 +182,13 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async getSummarizedArticles(limit: number): Promise<Article[]> {
+    return Array.from(this.articles.values())
+      .filter(article => article.aiSummary)
+      .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+      .slice(0, limit);
+  }
+
   async getUserPreferences(userId: string): Promise<UserPreferences | undefined> {
     return Array.from(this.userPreferences.values()).find(
       prefs => prefs.userId === userId
@@ -96,7 +197,16 @@ export class MemStorage implements IStorage {
 
   async createUserPreferences(insertPrefs: InsertUserPreferences): Promise<UserPreferences> {
     const id = randomUUID();
-    const prefs: UserPreferences = { ...insertPrefs, id };
+    // Mirror the column defaults DbStorage gets from Postgres
+    const prefs: UserPreferences = {
+      id,
+      userId: insertPrefs.userId ?? null,
+      preferredSources: insertPrefs.preferredSources ?? [],
+      autoSummarize: insertPrefs.autoSummarize ?? true,
+      summaryLength: insertPrefs.summaryLength ?? "medium",
+      voiceSearchEnabled: insertPrefs.voiceSearchEnabled ?? true,
+      voiceLanguage: insertPrefs.voiceLanguage ?? "en-US",
+    };
     this.userPreferences.set(id, prefs);
     return prefs;
   }
@@ -112,6 +222,283 @@ export class MemStorage implements IStorage {
     this.userPreferences.set(existing.id, updated);
     return updated;
   }
+
+  async getBookmarkedArticles(userId: string): Promise<Article[]> {
+    return Array.from(this.bookmarks.values())
+      .filter(bookmark => bookmark.userId === userId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime())
+      .map(bookmark => this.articles.get(bookmark.articleId))
+      .filter((article): article is Article => article !== undefined);
+  }
+
+  async addBookmark(userId: string, articleId: string): Promise<Bookmark> {
+    const existing = Array.from(this.bookmarks.values()).find(
+      bookmark => bookmark.userId === userId && bookmark.articleId === articleId
+    );
+    if (existing) {
+      return existing;
+    }
+    const id = randomUUID();
+    const bookmark: Bookmark = { id, userId, articleId, createdAt: new Date() };
+    this.bookmarks.set(id, bookmark);
+    return bookmark;
+  }
+
+  async removeBookmark(userId: string, articleId: string): Promise<void> {
+    for (const [id, bookmark] of Array.from(this.bookmarks.entries())) {
+      if (bookmark.userId === userId && bookmark.articleId === articleId) {
+        this.bookmarks.delete(id);
+      }
+    }
+  }
+
+  // The in-memory LRU in SummaryCache is already the only tier that would
+  // survive here, so MemStorage does not keep a second, unbounded copy
+  async getCachedSummary(_key: string): Promise<SummaryCacheEntry | undefined> {
+    return undefined;
+  }
+
+  async saveCachedSummary(_entry: InsertSummaryCacheEntry): Promise<void> {}
+
+  async pruneCachedSummaries(_promptVersion: number): Promise<number> {
+    return 0;
+  }
+
+  async getBriefing(id: string): Promise<Briefing | undefined> {
+    return this.briefings.get(id);
+  }
+
+  async getBriefings(limit: number): Promise<Briefing[]> {
+    return Array.from(this.briefings.values())
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime())
+      .slice(0, limit);
+  }
+
+  async createBriefing(insertBriefing: InsertBriefing): Promise<Briefing> {
+    const id = randomUUID();
+    const briefing: Briefing = {
+      ...insertBriefing,
+      id,
+      durationSeconds: insertBriefing.durationSeconds ?? null,
+      createdAt: new Date(),
+    };
+    this.briefings.set(id, briefing);
+    return briefing;
+  }
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, sessionPool: pg.Pool) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: sessionPool,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getArticle(id: string): Promise<Article | undefined> {
+    const [article] = await this.db.select().from(articles).where(eq(articles.id, id));
+    return article;
+  }
+
+  async getArticles(filters?: { country?: string; category?: string; sources?: string[] }): Promise<Article[]> {
+    const conditions: SQL[] = [];
+
+    if (filters?.country) {
+      conditions.push(eq(articles.country, filters.country));
+    }
+
+    if (filters?.category) {
+      conditions.push(eq(articles.category, filters.category));
+    }
+
+    if (filters?.sources && filters.sources.length > 0) {
+      // Match MemStorage: a source is identified by its name, falling back to its id
+      conditions.push(
+        or(
+          inArray(sql`${articles.source}->>'name'`, filters.sources),
+          inArray(sql`${articles.source}->>'id'`, filters.sources),
+        )!,
+      );
+    }
+
+    return this.db
+      .select()
+      .from(articles)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(articles.publishedAt));
+  }
+
+  async createArticle(insertArticle: InsertArticle): Promise<Article> {
+    const [article] = await this.db
+      .insert(articles)
+      .values({ ...insertArticle, canonicalUrl: normalizeArticleUrl(insertArticle.url) })
+      .returning();
+    return article;
+  }
+
+  async upsertArticle(insertArticle: InsertArticle): Promise<Article> {
+    const [article] = await this.db
+      .insert(articles)
+      .values({ ...insertArticle, canonicalUrl: normalizeArticleUrl(insertArticle.url) })
+      .onConflictDoUpdate({
+        target: articles.canonicalUrl,
+        set: {
+          title: sql`excluded.title`,
+          description: sql`excluded.description`,
+          content: sql`excluded.content`,
+          url: sql`excluded.url`,
+          urlToImage: sql`excluded.url_to_image`,
+          publishedAt: sql`excluded.published_at`,
+          source: sql`excluded.source`,
+          author: sql`excluded.author`,
+          category: sql`coalesce(excluded.category, ${articles.category})`,
+          country: sql`coalesce(excluded.country, ${articles.country})`,
+          aiSummary: sql`coalesce(${articles.aiSummary}, excluded.ai_summary)`,
+        },
+      })
+      .returning();
+    return article;
+  }
+
+  async updateArticle(id: string, updates: Partial<Article>): Promise<Article> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(articles)
+      .set(changes)
+      .where(eq(articles.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error(`Article with id ${id} not found`);
+    }
+    return updated;
+  }
+
+  async getSummarizedArticles(limit: number): Promise<Article[]> {
+    return this.db
+      .select()
+      .from(articles)
+      .where(isNotNull(articles.aiSummary))
+      .orderBy(desc(articles.publishedAt))
+      .limit(limit);
+  }
+
+  async getUserPreferences(userId: string): Promise<UserPreferences | undefined> {
+    const [prefs] = await this.db
+      .select()
+      .from(userPreferences)
+      .where(eq(userPreferences.userId, userId));
+    return prefs;
+  }
+
+  async createUserPreferences(insertPrefs: InsertUserPreferences): Promise<UserPreferences> {
+    const [prefs] = await this.db.insert(userPreferences).values(insertPrefs).returning();
+    return prefs;
+  }
+
+  async updateUserPreferences(userId: string, updates: Partial<UserPreferences>): Promise<UserPreferences> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(userPreferences)
+      .set(changes)
+      .where(eq(userPreferences.userId, userId))
+      .returning();
+    if (!updated) {
+      throw new Error(`User preferences for user ${userId} not found`);
+    }
+    return updated;
+  }
+
+  async getBookmarkedArticles(userId: string): Promise<Article[]> {
+    const rows = await this.db
+      .select({ article: articles })
+      .from(bookmarks)
+      .innerJoin(articles, eq(bookmarks.articleId, articles.id))
+      .where(eq(bookmarks.userId, userId))
+      .orderBy(desc(bookmarks.createdAt));
+    return rows.map(row => row.article);
+  }
+
+  async addBookmark(userId: string, articleId: string): Promise<Bookmark> {
+    const [bookmark] = await this.db
+      .insert(bookmarks)
+      .values({ userId, articleId })
+      .onConflictDoNothing()
+      .returning();
+    if (bookmark) {
+      return bookmark;
+    }
+    const [existing] = await this.db
+      .select()
+      .from(bookmarks)
+      .where(and(eq(bookmarks.userId, userId), eq(bookmarks.articleId, articleId)));
+    return existing;
+  }
+
+  async removeBookmark(userId: string, articleId: string): Promise<void> {
+    await this.db
+      .delete(bookmarks)
+      .where(and(eq(bookmarks.userId, userId), eq(bookmarks.articleId, articleId)));
+  }
+
+  async getCachedSummary(key: string): Promise<SummaryCacheEntry | undefined> {
+    const [entry] = await this.db.select().from(summaryCache).where(eq(summaryCache.key, key));
+    return entry;
+  }
+
+  async saveCachedSummary(entry: InsertSummaryCacheEntry): Promise<void> {
+    await this.db
+      .insert(summaryCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: summaryCache.key,
+        set: {
+          summary: sql`excluded.summary`,
+          method: sql`excluded.method`,
+          sourceLinks: sql`excluded.source_links`,
+          promptVersion: sql`excluded.prompt_version`,
+          createdAt: sql`now()`,
+        },
+      });
+  }
+
+  async pruneCachedSummaries(promptVersion: number): Promise<number> {
+    const removed = await this.db
+      .delete(summaryCache)
+      .where(ne(summaryCache.promptVersion, promptVersion))
+      .returning({ key: summaryCache.key });
+    return removed.length;
+  }
+
+  async getBriefing(id: string): Promise<Briefing | undefined> {
+    const [briefing] = await this.db.select().from(briefings).where(eq(briefings.id, id));
+    return briefing;
+  }
+
+  async getBriefings(limit: number): Promise<Briefing[]> {
+    return this.db.select().from(briefings).orderBy(desc(briefings.createdAt)).limit(limit);
+  }
+
+  async createBriefing(insertBriefing: InsertBriefing): Promise<Briefing> {
+    const [briefing] = await this.db.insert(briefings).values(insertBriefing).returning();
+    return briefing;
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = db && pool ? new DbStorage(db, pool) : new MemStorage();
@@ -0,0 +1,53 @@
+// Query parameters that only identify how a reader arrived at a story, never which story it is
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "msclkid",
+  "mc_cid",
+  "mc_eid",
+  "igshid",
+  "ocid",
+  "cmpid",
+  "_ga",
+  "_gl",
+  "ref",
+  "ref_src",
+  "smid",
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith("utm_") || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * Canonical form of an article URL used for de-duplication: lowercased host
+ * without "www.", no fragment, no tracking parameters, remaining parameters
+ * sorted and no trailing slash. Unparseable URLs are returned trimmed.
+ */
+export function normalizeArticleUrl(rawUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return rawUrl.trim();
+  }
+
+  url.hash = "";
+  url.hostname = url.hostname.toLowerCase().replace(/^www\./, "");
+  if (url.protocol === "http:") {
+    url.protocol = "https:";
+  }
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(params).toString();
+
+  if (url.pathname.length > 1 && url.pathname.endsWith("/")) {
+    url.pathname = url.pathname.replace(/\/+$/, "");
+  }
+
+  return url.toString();
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { cleanArticleText } from "./articleText";
+
+describe("cleanArticleText", () => {
+  it("drops NewsAPI's truncation marker with or without the ellipsis", () => {
+    expect(cleanArticleText("Officials said the pilot will run for a year… [+1834 chars]")).toBe("Officials said the pilot will run for a year");
+    expect(cleanArticleText("Officials said the pilot will run for a year [+1834 chars]")).toBe("Officials said the pilot will run for a year");
+  });
+
+  it("keeps text without a marker, with its whitespace collapsed", () => {
+    expect(cleanArticleText("  Buses run\nevery 15 minutes.  ")).toBe("Buses run every 15 minutes.");
+  });
+});
@@ -0,0 +1,7 @@
+// NewsAPI truncates content with a "… [+1234 chars]" marker; it is never part of a sentence
+export function cleanArticleText(text: string): string {
+  return text
+    .replace(/…?\s*\[\+\d+ chars\]\s*$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
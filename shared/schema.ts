@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, jsonb, integer, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,13 +15,23 @@ export const articles = pgTable("articles", {
   description: text("description"),
   content: text("content"),
   url: text("url").notNull(),
+  canonicalUrl: text("canonical_url").unique(),
   urlToImage: text("url_to_image"),
   publishedAt: timestamp("published_at").notNull(),
-  source: jsonb("source").notNull(),
+  source: jsonb("source").$type<ArticleSource>().notNull(),
   author: text("author"),
   category: text("category"),
   country: text("country"),
   aiSummary: text("ai_summary"),
+  // Summarizer that produced aiSummary, e.g. "gemini" or "extractive"
+  summaryMethod: text("summary_method"),
+  // "positive" | "neutral" | "negative", derived from sentimentRating (1-5)
+  sentiment: text("sentiment"),
+  sentimentRating: integer("sentiment_rating"),
+  // Article body extracted from the page at url; content is the provider's (often truncated) excerpt
+  fullContent: text("full_content"),
+  // Last extraction attempt, set even when it failed so failures aren't retried on every view
+  fullContentFetchedAt: timestamp("full_content_fetched_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -35,13 +45,58 @@ export const userPreferences = pgTable("user_preferences", {
   voiceLanguage: text("voice_language").default("en-US"),
 });
 
+export const bookmarks = pgTable("bookmarks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  articleId: varchar("article_id").notNull().references(() => articles.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("bookmarks_user_article_unique").on(table.userId, table.articleId),
+]);
+
+// Second tier of the summary cache; key is a hash of the inputs, prompt version and model
+export const summaryCache = pgTable("summary_cache", {
+  key: varchar("key", { length: 64 }).primaryKey(),
+  summary: text("summary").notNull(),
+  method: text("method").notNull(),
+  // Only set for topic summaries
+  sourceLinks: jsonb("source_links"),
+  promptVersion: integer("prompt_version").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// An audio briefing read from the latest article summaries; the audio itself is a file under BRIEFINGS_DIR
+export const briefings = pgTable("briefings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  // The text that was read, also used as the podcast episode description
+  script: text("script").notNull(),
+  articleIds: jsonb("article_ids").notNull(),
+  // TTS engine that produced the audio, e.g. "espeak"
+  engine: text("engine").notNull(),
+  audioFile: text("audio_file").notNull(),
+  mimeType: text("mime_type").notNull(),
+  byteLength: integer("byte_length").notNull(),
+  // Unknown for formats whose length can't be read without decoding, e.g. mp3
+  durationSeconds: integer("duration_seconds"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
-export const insertArticleSchema = createInsertSchema(articles).omit({
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(32),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const insertArticleSchema = createInsertSchema(articles, {
+  source: z.object({ id: z.string().nullable(), name: z.string() }),
+}).omit({
   id: true,
+  canonicalUrl: true,
   createdAt: true,
 });
 
@@ -49,6 +104,24 @@ export const insertUserPreferencesSchema = createInsertSchema(userPreferences).o
   id: true,
 });
 
+// Body accepted by /api/me/preferences; the owner always comes from the session, never the request
+export const updateUserPreferencesSchema = insertUserPreferencesSchema
+  .omit({ userId: true })
+  .extend({
+    preferredSources: z.array(z.string()).optional(),
+    summaryLength: z.enum(["short", "medium", "long"]).optional(),
+  });
+
+export const insertBookmarkSchema = createInsertSchema(bookmarks).pick({
+  articleId: true,
+});
+
+export const sentimentLabels = ["positive", "neutral", "negative"] as const;
+
+// Languages newsapi.org's /everything endpoint can filter by
+export const newsLanguages = ["ar", "de", "en", "es", "fr", "he", "it", "nl", "no", "pt", "ru", "sv", "ud", "zh"] as const;
+export const searchInFields = ["title", "description", "content"] as const;
+
 export const newsFiltersSchema = z.object({
   country: z.string().optional(),
   category: z.string().optional(),
@@ -57,11 +130,23 @@ export const newsFiltersSchema = z.object({
     z.string().transform(val => val.split(',').filter(s => s.trim() !== ''))
   ]).optional(),
   q: z.string().optional(),
+  // Which article fields q is matched against; all of them when omitted
+  searchIn: z.union([
+    z.array(z.enum(searchInFields)),
+    z.string().transform(val => val.split(',').filter(s => s.trim() !== '')).pipe(z.array(z.enum(searchInFields))),
+  ]).optional(),
+  language: z.enum(newsLanguages).optional(),
   from: z.string().optional(),
   to: z.string().optional(),
   sortBy: z.enum(["relevancy", "popularity", "publishedAt"]).optional(),
   pageSize: z.coerce.number().min(1).max(100).optional(),
   page: z.coerce.number().min(1).optional(),
+  // Include sentiment for the returned articles, estimated locally unless already stored; implied by `sentiment`
+  includeSentiment: z.union([
+    z.boolean(),
+    z.enum(["true", "false"]).transform(val => val === "true"),
+  ]).optional(),
+  sentiment: z.enum(sentimentLabels).optional(),
 });
 
 export const summarizeRequestSchema = z.object({
@@ -73,11 +158,35 @@ export const summarizeRequestSchema = z.object({
   summaryLength: z.enum(["short", "medium", "long"]).optional(),
 });
 
+export const summaryJobRequestSchema = z.object({
+  articleIds: z.array(z.string()).min(1, "At least one article is required").max(100),
+  summaryLength: z.enum(["short", "medium", "long"]).optional(),
+});
+
+export const briefingRequestSchema = z.object({
+  // How many of the latest summarized articles to read
+  articleCount: z.coerce.number().int().min(1).max(20).optional(),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type InsertArticle = z.infer<typeof insertArticleSchema>;
 export type Article = typeof articles.$inferSelect;
+// Shape of Article.source, as NewsAPI returns it
+export type ArticleSource = { id: string | null; name: string };
 export type InsertUserPreferences = z.infer<typeof insertUserPreferencesSchema>;
 export type UserPreferences = typeof userPreferences.$inferSelect;
+export type UpdateUserPreferences = z.infer<typeof updateUserPreferencesSchema>;
+export type Bookmark = typeof bookmarks.$inferSelect;
+export type SummaryCacheEntry = typeof summaryCache.$inferSelect;
+export type InsertSummaryCacheEntry = typeof summaryCache.$inferInsert;
 export type NewsFilters = z.infer<typeof newsFiltersSchema>;
+export type SentimentLabel = typeof sentimentLabels[number];
+export type NewsLanguage = typeof newsLanguages[number];
+export type SearchInField = typeof searchInFields[number];
 export type SummarizeRequest = z.infer<typeof summarizeRequestSchema>;
+export type SummaryJobRequest = z.infer<typeof summaryJobRequestSchema>;
+export type Briefing = typeof briefings.$inferSelect;
+export type InsertBriefing = typeof briefings.$inferInsert;
+export type BriefingRequest = z.infer<typeof briefingRequestSchema>;